@@ -21,6 +21,19 @@ function validateEnvironment() {
 // Run validation
 validateEnvironment();
 
+// Prerendered pages read Contentful through the Sync API snapshot (src/lib/contentCache.ts)
+// Only enabled while building so SSR routes keep querying Contentful live
+function contentfulSyncCache() {
+  return {
+    name: 'contentful-sync-cache',
+    hooks: {
+      'astro:build:start': () => {
+        process.env.CONTENTFUL_SYNC_CACHE ??= 'true';
+      },
+    },
+  };
+}
+
 // https://astro.build/config
 export default defineConfig({
   output: 'hybrid',
@@ -38,7 +51,7 @@ export default defineConfig({
       domains: [],
     },
   }),
-  integrations: [tailwind()],
+  integrations: [tailwind(), contentfulSyncCache()],
   site: process.env.SITE_URL || 'http://localhost:4321',
   build: {
     inlineStylesheets: 'auto',
@@ -0,0 +1,467 @@
+#!/usr/bin/env node
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import ts from 'typescript';
+
+/**
+ * Content type generator
+ * Generates raw field types from a Contentful content model export and checks that the
+ * hand-written interfaces in src/lib/contentful.ts still match the model
+ *
+ * Usage:
+ *   node scripts/generate-content-types.js                     Write src/lib/contentModel.ts
+ *   node scripts/generate-content-types.js --check             Fail on a stale file or interface drift
+ *   node scripts/generate-content-types.js --scaffold <type>   Print schema, interface and transform code
+ *   --model <file>                                             Model export to read (default below)
+ */
+
+// Output of `contentful space export --skip-content`, or the CMA content_types response
+const DEFAULT_MODEL_PATH = 'contentful/content-model.json';
+const OUTPUT_PATH = 'src/lib/contentModel.ts';
+const INTERFACES_PATH = 'src/lib/contentful.ts';
+
+// Model fields that the hand-written interfaces group into a nested object
+const GROUPED_FIELDS = {
+  blogPost: {
+    seo: { title: 'seoTitle', description: 'seoDescription', ogImage: 'seoImage' },
+  },
+};
+
+// Optional fields of these types may be required in an interface, since transforms default them
+// to '' or [] instead of leaving them undefined
+const DEFAULTED_FIELD_TYPES = new Set(['Symbol', 'Text', 'Array', 'Object']);
+
+function parseArgs(argv) {
+  const args = { check: false, scaffold: null, model: DEFAULT_MODEL_PATH };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--check') args.check = true;
+    else if (arg === '--scaffold') args.scaffold = argv[++index];
+    else if (arg === '--model') args.model = argv[++index];
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+  if (args.scaffold === undefined || args.model === undefined) {
+    throw new Error('--scaffold and --model need a value');
+  }
+  return args;
+}
+
+function loadContentTypes(path) {
+  const model = JSON.parse(readFileSync(path, 'utf8'));
+  const contentTypes = model.contentTypes ?? model.items;
+  if (!Array.isArray(contentTypes)) {
+    throw new Error(`${path} has no contentTypes (or items) array`);
+  }
+
+  return contentTypes
+    .map((contentType) => ({
+      ...contentType,
+      // Omitted fields are never delivered by the Content Delivery API
+      fields: contentType.fields.filter((field) => !field.omitted),
+    }))
+    .sort((a, b) => (a.sys.id < b.sys.id ? -1 : a.sys.id > b.sys.id ? 1 : 0));
+}
+
+function pascalCase(id) {
+  return id.charAt(0).toUpperCase() + id.slice(1);
+}
+
+function findValidation(field, key) {
+  return (field.validations ?? []).find((validation) => key in validation)?.[key];
+}
+
+function union(types) {
+  return types.length > 0 ? types.join(' | ') : 'never';
+}
+
+function arrayOf(type) {
+  return type.includes(' | ') ? `(${type})[]` : `${type}[]`;
+}
+
+// Type of a field value as the Delivery API returns it, with links resolved
+function rawFieldType(field) {
+  switch (field.type) {
+    case 'Symbol':
+    case 'Text': {
+      const values = findValidation(field, 'in');
+      return values ? union(values.map((value) => `'${value}'`)) : 'string';
+    }
+    case 'Integer':
+    case 'Number':
+      return 'number';
+    case 'Date':
+      return 'string';
+    case 'Boolean':
+      return 'boolean';
+    case 'Location':
+      return '{ lat: number; lon: number }';
+    case 'RichText':
+      return 'RichTextDocument';
+    case 'Object':
+      return 'unknown';
+    case 'Link': {
+      if (field.linkType === 'Asset') return 'AssetEntry';
+      const targets = findValidation(field, 'linkContentType');
+      return targets ? union(targets.map((id) => `${pascalCase(id)}Entry`)) : 'UnknownEntry';
+    }
+    case 'Array':
+      return arrayOf(rawFieldType(field.items));
+    default:
+      throw new Error(`Unsupported field type ${field.type} for field ${field.id}`);
+  }
+}
+
+// Type of a field once transformed into the interfaces in contentful.ts; null when the
+// transform decides the shape (JSON objects)
+function interfaceFieldType(field) {
+  switch (field.type) {
+    case 'RichText':
+      return 'ContentBody';
+    case 'Object':
+      return null;
+    case 'Link': {
+      if (field.linkType === 'Asset') return 'ContentfulAsset';
+      const targets = findValidation(field, 'linkContentType');
+      return targets ? union(targets.map(pascalCase)) : null;
+    }
+    case 'Array': {
+      const item = interfaceFieldType(field.items);
+      return item === null ? null : arrayOf(item);
+    }
+    default:
+      return rawFieldType(field);
+  }
+}
+
+function generateModule(contentTypes, modelPath) {
+  const usesRichText = contentTypes.some((contentType) =>
+    contentType.fields.some((field) => rawFieldType(field).includes('RichTextDocument'))
+  );
+  const ids = contentTypes.map((contentType) => `'${contentType.sys.id}'`);
+  const idsLine = `export const CONTENT_TYPE_IDS = [${ids.join(', ')}] as const;`;
+
+  const lines = [
+    `// Generated by scripts/generate-content-types.js from ${modelPath}; do not edit`,
+    '// Raw field types per content type, with links typed as the resolved entries validation requires',
+    '',
+    ...(usesRichText ? ["import type { RichTextDocument } from './contentful.js';", ''] : []),
+    // Wrapped the way the formatter would once the list outgrows the line width
+    ...(idsLine.length <= 100
+      ? [idsLine]
+      : ['export const CONTENT_TYPE_IDS = [', ...ids.map((id) => `  ${id},`), '] as const;']),
+    '',
+    'export type ContentTypeId = (typeof CONTENT_TYPE_IDS)[number];',
+    '',
+    'export interface ContentModelSys {',
+    '  id: string;',
+    '  createdAt: string;',
+    '  updatedAt: string;',
+    '  contentType?: { sys: { id: string } };',
+    '}',
+    '',
+    'export interface ContentModelEntry<TFields> {',
+    '  sys: ContentModelSys;',
+    '  fields: TFields;',
+    '}',
+    '',
+    'export type UnknownEntry = ContentModelEntry<Record<string, unknown>>;',
+    '',
+    '// Built-in asset fields, which are not part of the content model export',
+    'export interface AssetFields {',
+    '  title?: string;',
+    '  description?: string;',
+    '  file: {',
+    '    url: string;',
+    '    fileName: string;',
+    '    contentType: string;',
+    '    details: { size: number; image?: { width: number; height: number } };',
+    '  };',
+    '}',
+    '',
+    'export type AssetEntry = ContentModelEntry<AssetFields>;',
+  ];
+
+  for (const contentType of contentTypes) {
+    const name = pascalCase(contentType.sys.id);
+    lines.push(
+      '',
+      `// ${contentType.name}${contentType.description ? `: ${contentType.description}` : ''}`,
+      `export interface ${name}Fields {`,
+      ...contentType.fields.map(
+        (field) => `  ${field.id}${field.required ? '' : '?'}: ${rawFieldType(field)};`
+      ),
+      '}',
+      '',
+      `export type ${name}Entry = ContentModelEntry<${name}Fields>;`
+    );
+  }
+
+  lines.push(
+    '',
+    '// Raw fields by content type ID, plus assets',
+    'export interface ContentFields {',
+    '  asset: AssetFields;',
+    ...contentTypes.map(
+      (contentType) => `  ${contentType.sys.id}: ${pascalCase(contentType.sys.id)}Fields;`
+    ),
+    '}'
+  );
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Property name, optionality and type node of every member of the interfaces in a file
+function readInterfaces(path) {
+  const source = ts.createSourceFile(path, readFileSync(path, 'utf8'), ts.ScriptTarget.Latest);
+  const interfaces = new Map();
+
+  const readMembers = (members) =>
+    new Map(
+      members
+        .filter(ts.isPropertySignature)
+        .map((member) => [
+          member.name.getText(source),
+          { optional: Boolean(member.questionToken), type: member.type },
+        ])
+    );
+
+  ts.forEachChild(source, (node) => {
+    if (ts.isInterfaceDeclaration(node)) {
+      interfaces.set(node.name.text, readMembers(node.members));
+    }
+  });
+
+  return { interfaces, readMembers, typeText: (node) => node?.getText(source) ?? 'unknown' };
+}
+
+// Compare unions member by member, ignoring order, whitespace and parentheses
+function normalizeType(type) {
+  return type
+    .replace(/[\s()]/g, '')
+    .replace(/"/g, "'")
+    .split('|')
+    .sort()
+    .join('|');
+}
+
+function checkProperty(label, field, property, typeText, allowOptional) {
+  if (!property) return [`${label} is missing (model field "${field.id}", ${field.type})`];
+
+  const problems = [];
+  if (field.required && property.optional && !allowOptional) {
+    problems.push(`${label} is optional but "${field.id}" is required in the model`);
+  }
+  if (!field.required && !property.optional && !DEFAULTED_FIELD_TYPES.has(field.type)) {
+    problems.push(`${label} is required but "${field.id}" is optional in the model`);
+  }
+
+  const expected = interfaceFieldType(field);
+  const actual = typeText(property.type);
+  if (expected !== null && normalizeType(actual) !== normalizeType(expected)) {
+    problems.push(`${label} is ${actual} but the model implies ${expected}`);
+  }
+  return problems;
+}
+
+function findInterfaceDrift(contentTypes) {
+  const { interfaces, readMembers, typeText } = readInterfaces(INTERFACES_PATH);
+  const problems = [];
+
+  for (const contentType of contentTypes) {
+    const name = pascalCase(contentType.sys.id);
+    const members = interfaces.get(name);
+    if (!members) {
+      problems.push(`${name}: no interface in ${INTERFACES_PATH} for "${contentType.sys.id}"`);
+      continue;
+    }
+
+    const groups = GROUPED_FIELDS[contentType.sys.id] ?? {};
+    const groupedIds = new Set(Object.values(groups).flatMap((group) => Object.values(group)));
+    const fieldsById = new Map(contentType.fields.map((field) => [field.id, field]));
+
+    for (const field of contentType.fields) {
+      if (groupedIds.has(field.id)) continue;
+      problems.push(
+        ...checkProperty(`${name}.${field.id}`, field, members.get(field.id), typeText, false)
+      );
+    }
+
+    for (const [groupName, mapping] of Object.entries(groups)) {
+      const group = members.get(groupName);
+      if (!group || !ts.isTypeLiteralNode(group.type)) {
+        problems.push(`${name}.${groupName} must be an object grouping ${Object.values(mapping)}`);
+        continue;
+      }
+      const groupMembers = readMembers(group.type.members);
+      for (const [property, fieldId] of Object.entries(mapping)) {
+        const field = fieldsById.get(fieldId);
+        if (!field) {
+          problems.push(`${name}.${groupName}.${property} maps to unknown field "${fieldId}"`);
+          continue;
+        }
+        // Members of an optional group are necessarily optional
+        problems.push(
+          ...checkProperty(
+            `${name}.${groupName}.${property}`,
+            field,
+            groupMembers.get(property),
+            typeText,
+            group.optional
+          )
+        );
+      }
+      for (const property of groupMembers.keys()) {
+        if (!(property in mapping)) {
+          problems.push(`${name}.${groupName}.${property} is not in the content model`);
+        }
+      }
+    }
+
+    for (const property of members.keys()) {
+      if (property !== 'sys' && !fieldsById.has(property) && !(property in groups)) {
+        problems.push(`${name}.${property} is not in the content model`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Validation schema entry, interface and transform for a content type, in the style of the
+// hand-written ones
+function scaffold(contentType) {
+  const id = contentType.sys.id;
+  const name = pascalCase(id);
+
+  const schemaRule = (field) => {
+    const required = field.required ? ', required: true' : '';
+    const values = findValidation(field, 'in');
+    const range = findValidation(field, 'range');
+    switch (field.type) {
+      case 'Symbol':
+      case 'Text':
+        return values
+          ? `{ type: 'enum', values: [${values.map((value) => `'${value}'`).join(', ')}]${required} }`
+          : `{ type: 'string'${required} }`;
+      case 'Integer':
+      case 'Number': {
+        const integer = field.type === 'Integer' ? ', integer: true' : '';
+        const min = range?.min !== undefined ? `, min: ${range.min}` : '';
+        return `{ type: 'number'${integer}${min}${required} }`;
+      }
+      case 'Date':
+        return `{ type: 'date'${required} }`;
+      case 'RichText':
+        return `{ type: 'body'${required} }`;
+      case 'Link': {
+        const target =
+          field.linkType === 'Asset' ? 'asset' : findValidation(field, 'linkContentType')?.[0];
+        return target ? `{ type: 'link', to: '${target}'${required} }` : null;
+      }
+      case 'Array':
+        return field.items.type === 'Symbol' ? `{ type: 'strings'${required} }` : null;
+      default:
+        return null;
+    }
+  };
+
+  const transformValue = (field) => {
+    const value = `entry.fields.${field.id}`;
+    switch (field.type) {
+      case 'RichText':
+        return `safeContentBody(${value})`;
+      case 'Link':
+        return field.linkType === 'Asset'
+          ? `transformAsset(${value})`
+          : `transform${interfaceFieldType(field) ?? 'Entry'}(${value})`;
+      case 'Array':
+        return field.required ? value : `${value} ?? []`;
+      default:
+        return value;
+    }
+  };
+
+  const schema = contentType.fields
+    .map((field) => [field, schemaRule(field)])
+    .filter(([, rule]) => rule !== null)
+    .map(([field, rule]) => `    ${field.id}: ${rule},`);
+
+  const properties = contentType.fields.map((field) => {
+    const optional = field.required || field.type === 'Array' ? '' : '?';
+    return `  ${field.id}${optional}: ${interfaceFieldType(field) ?? 'unknown'};`;
+  });
+
+  return [
+    '// contentValidation.ts: add to CONTENT_SCHEMAS',
+    `  ${id}: {`,
+    ...schema,
+    '  },',
+    '',
+    '// contentful.ts',
+    `// ${contentType.name} content type interface`,
+    `export interface ${name} {`,
+    '  sys: ContentfulSys;',
+    ...properties,
+    '}',
+    '',
+    `// Map ${id} entries`,
+    `export function transform${name}(entry: unknown): ${name} {`,
+    `  assertValidContentEntry('${id}', entry);`,
+    '',
+    '  return {',
+    '    sys: {',
+    '      id: entry.sys.id,',
+    '      createdAt: entry.sys.createdAt,',
+    '      updatedAt: entry.sys.updatedAt,',
+    '    },',
+    ...contentType.fields.map((field) => `    ${field.id}: ${transformValue(field)},`),
+    '  };',
+    '}',
+  ].join('\n');
+}
+
+function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const contentTypes = loadContentTypes(args.model);
+
+    if (args.scaffold) {
+      const contentType = contentTypes.find((candidate) => candidate.sys.id === args.scaffold);
+      if (!contentType) {
+        throw new Error(`Content type "${args.scaffold}" is not in ${args.model}`);
+      }
+      console.log(scaffold(contentType));
+      return;
+    }
+
+    const generated = generateModule(contentTypes, args.model);
+
+    if (!args.check) {
+      writeFileSync(OUTPUT_PATH, generated);
+      console.log(`✅ Wrote ${contentTypes.length} content types to ${OUTPUT_PATH}`);
+      return;
+    }
+
+    console.log(`🔍 Checking content types against ${args.model}...`);
+    const problems = [];
+    if (!existsSync(OUTPUT_PATH) || readFileSync(OUTPUT_PATH, 'utf8') !== generated) {
+      problems.push(`${OUTPUT_PATH} is out of date; run pnpm run content:types`);
+    }
+    problems.push(...findInterfaceDrift(contentTypes));
+
+    if (problems.length > 0) {
+      console.error('❌ Content types drifted from the content model:');
+      for (const problem of problems) {
+        console.error(`  - ${problem}`);
+      }
+      process.exit(1);
+    }
+
+    console.log('✅ Content types match the content model');
+  } catch (error) {
+    console.error('❌ Content type generation error:', error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -12,13 +12,19 @@ const DIST_DIR = '.vercel/output/static';
 const FUNCTIONS_DIR = '.vercel/output/functions';
 const REQUIRED_FILES = [
   'index.html',
+  'blog/index.html',
+  'guides/index.html',
+  'categories/index.html',
   'sitemap-index.xml',
   'sitemap-blog.xml',
   'sitemap-guides.xml',
+  'sitemap-authors.xml',
+  'sitemap-tags.xml',
   'sitemap-pages.xml',
+  'search-index.json',
 ];
 
-const REQUIRED_DIRECTORIES = ['_astro', 'blog', 'guides', 'category'];
+const REQUIRED_DIRECTORIES = ['_astro', 'blog', 'guides', 'category', 'author', 'tag'];
 
 function validateBuildOutput() {
   console.log('🔍 Validating build output...');
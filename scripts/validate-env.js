@@ -12,7 +12,21 @@ const REQUIRED_PRODUCTION_VARS = [
   'SITE_URL',
 ];
 
-const OPTIONAL_VARS = ['CONTENTFUL_PREVIEW_SECRET', 'CONTENTFUL_ENVIRONMENT'];
+const OPTIONAL_VARS = [
+  'CONTENTFUL_PREVIEW_SECRET',
+  'CONTENTFUL_ENVIRONMENT',
+  'CONTENTFUL_WEBHOOK_SECRET',
+  'REVALIDATE_HOOK_URL',
+  'REVALIDATE_HOOK_TOKEN',
+  'CONTENTFUL_CACHE_DIR',
+  'CONTENTFUL_MEMO_TTL',
+  'CONTENTFUL_REQUEST_RETRIES',
+  'CONTENTFUL_REQUEST_TIMEOUT',
+  'SITEMAP_ERROR_POLICY',
+  'CONTENT_VALIDATION_POLICY',
+  'SITE_LOCALES',
+  'TAG_INDEX_THRESHOLD',
+];
 
 function validateEnvironmentVariables() {
   console.log('🔍 Validating environment variables...');
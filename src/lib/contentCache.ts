@@ -0,0 +1,603 @@
+// Sync-API-backed content cache for builds
+// Mirrors published Contentful content into an on-disk snapshot and serves ContentFetcher reads from memory
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { ContentfulClientApi } from 'contentful';
+import { type ContentValidator, getContentValidator } from './contentValidation.js';
+import {
+  type Author,
+  type BlogPost,
+  type Category,
+  type ContentFetcher,
+  type ContentPage,
+  type ContentfulEntry,
+  ContentfulService,
+  DEFAULT_PAGE_SIZE,
+  type FaqEntry,
+  type Guide,
+  type PageOptions,
+  createDeliveryClient,
+  createPreviewClient,
+  createRequestPolicies,
+  getContentfulConfig,
+  iteratePages,
+  resolvePageOptions,
+  transformAuthor,
+  transformBlogPost,
+  transformCategory,
+  transformFaqEntry,
+  transformGuide,
+} from './contentful.js';
+import { ContentfulRequestPolicy } from './contentfulRequest.js';
+import { getLocaleConfig } from './locales.js';
+
+// Bumped whenever the snapshot layout changes so stale files trigger a full sync
+export const CONTENT_SNAPSHOT_VERSION = 1;
+
+// Kept under node_modules/.cache, which CI and Vercel persist between builds
+export const DEFAULT_CONTENT_CACHE_DIR = 'node_modules/.cache/contentful-sync';
+
+// Locale read from synced entities, whose fields are keyed by locale
+export const DEFAULT_SNAPSHOT_LOCALE = 'en-US';
+
+// Matches the `include: 2` of the live queries (post → author → avatar, guide → step → image)
+const LINK_RESOLUTION_DEPTH = 2;
+
+// Entry or asset as returned by the Sync API, with links left unresolved
+export interface SyncedEntity {
+  sys: {
+    id: string;
+    type: string;
+    createdAt: string;
+    updatedAt: string;
+    contentType?: { sys: { id: string } };
+  };
+  // The Sync API always returns every locale, keyed by locale code
+  fields: Record<string, Record<string, unknown>>;
+}
+
+// Tombstone for an entry or asset that was unpublished or deleted
+export interface SyncedDeletion {
+  sys: { id: string; type: string };
+}
+
+// Result of one sync round, with every page already followed
+export interface SyncDelta {
+  entries: SyncedEntity[];
+  assets: SyncedEntity[];
+  deletedEntries: SyncedDeletion[];
+  deletedAssets: SyncedDeletion[];
+  nextSyncToken?: string;
+}
+
+// Space and environment a snapshot was synced from
+export interface SnapshotIdentity {
+  spaceId: string;
+  environment: string;
+}
+
+// Published content as of `syncToken`, persisted between builds
+export interface ContentSnapshot extends SnapshotIdentity {
+  version: number;
+  syncToken: string;
+  syncedAt: string;
+  entries: Record<string, SyncedEntity>;
+  assets: Record<string, SyncedEntity>;
+}
+
+export type ContentSyncQuery = { initial: true } | { nextSyncToken: string };
+
+// Anything that can answer Sync API queries; the delivery client in production
+export interface ContentSyncSource {
+  sync(query: ContentSyncQuery): Promise<SyncDelta>;
+}
+
+// Persistence for the snapshot between builds
+export interface SnapshotStore {
+  load(): Promise<ContentSnapshot | null>;
+  save(snapshot: ContentSnapshot): Promise<void>;
+}
+
+// Snapshot with nothing synced yet, the starting point of an initial sync
+export function createEmptySnapshot(identity: SnapshotIdentity): ContentSnapshot {
+  return {
+    version: CONTENT_SNAPSHOT_VERSION,
+    spaceId: identity.spaceId,
+    environment: identity.environment,
+    syncToken: '',
+    syncedAt: '',
+    entries: {},
+    assets: {},
+  };
+}
+
+// Merge changed entities and drop deleted ones without touching the base snapshot
+function mergeEntities(
+  base: Record<string, SyncedEntity>,
+  changed: SyncedEntity[],
+  deleted: SyncedDeletion[]
+): Record<string, SyncedEntity> {
+  const deletedIds = new Set(deleted.map((entity) => entity.sys.id));
+  const merged = {
+    ...base,
+    ...Object.fromEntries(changed.map((entity) => [entity.sys.id, entity])),
+  };
+
+  return Object.fromEntries(Object.entries(merged).filter(([id]) => !deletedIds.has(id)));
+}
+
+/**
+ * Apply a sync round to a snapshot, returning the snapshot as of the delta's next sync token
+ */
+export function applySyncDelta(
+  snapshot: ContentSnapshot,
+  delta: SyncDelta,
+  now = new Date()
+): ContentSnapshot {
+  if (!delta.nextSyncToken) {
+    throw new Error('Sync response did not include a next sync token');
+  }
+
+  return {
+    ...snapshot,
+    syncToken: delta.nextSyncToken,
+    syncedAt: now.toISOString(),
+    entries: mergeEntities(snapshot.entries, delta.entries, delta.deletedEntries),
+    assets: mergeEntities(snapshot.assets, delta.assets, delta.deletedAssets),
+  };
+}
+
+// Adapt a delivery client to the sync source used by ContentSnapshotSync
+export function createSyncSource(
+  client: ContentfulClientApi<undefined>,
+  policy = new ContentfulRequestPolicy()
+): ContentSyncSource {
+  return {
+    async sync(query) {
+      // Links are resolved from the snapshot instead, since delta rounds only carry changed entities
+      const collection = await policy.run('Contentful sync', () =>
+        client.withoutLinkResolution.sync(query)
+      );
+      return collection as unknown as SyncDelta;
+    },
+  };
+}
+
+// Snapshot stored as a JSON file, written atomically so an interrupted build cannot corrupt it
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(readonly path: string) {}
+
+  async load(): Promise<ContentSnapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8')) as ContentSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(snapshot: ContentSnapshot): Promise<void> {
+    const temporaryPath = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temporaryPath, JSON.stringify(snapshot));
+    await rename(temporaryPath, this.path);
+  }
+}
+
+// Snapshot file for a space and environment inside the cache directory
+export function getSnapshotPath(
+  identity: SnapshotIdentity,
+  cacheDir = DEFAULT_CONTENT_CACHE_DIR
+): string {
+  return join(cacheDir, `${identity.spaceId}-${identity.environment}.json`);
+}
+
+/**
+ * Get the slug an entry had in a snapshot, which outlives renames, unpublishes and deletes
+ */
+export function getSnapshotSlug(
+  snapshot: ContentSnapshot,
+  entryId: string,
+  locale = DEFAULT_SNAPSHOT_LOCALE
+): string | undefined {
+  const slug = snapshot.entries[entryId]?.fields.slug?.[locale];
+  return typeof slug === 'string' && slug ? slug : undefined;
+}
+
+/**
+ * Look up entry slugs in the snapshot stored by the last build, without syncing it
+ * Undefined without Contentful credentials; every lookup misses until a build has stored a snapshot
+ */
+export function createSnapshotSlugLookup(
+  env: Record<string, string | undefined> = process.env
+): ((entryId: string) => Promise<string | undefined>) | undefined {
+  const config = getContentfulConfig(env);
+  if (!config) return undefined;
+
+  const identity = { spaceId: config.spaceId, environment: config.environment };
+  const store = new FileSnapshotStore(
+    getSnapshotPath(identity, env.CONTENTFUL_CACHE_DIR || undefined)
+  );
+  const locale = getLocaleConfig(env).defaultLocale.code;
+
+  return async (entryId) => {
+    const snapshot = await store.load();
+    return snapshot ? getSnapshotSlug(snapshot, entryId, locale) : undefined;
+  };
+}
+
+// Keeps the stored snapshot current, pulling only deltas once an initial sync has been stored
+export class ContentSnapshotSync {
+  constructor(
+    private readonly source: ContentSyncSource,
+    private readonly store: SnapshotStore,
+    private readonly identity: SnapshotIdentity
+  ) {}
+
+  private async loadStoredSnapshot(): Promise<ContentSnapshot | null> {
+    try {
+      const snapshot = await this.store.load();
+      if (
+        !snapshot ||
+        snapshot.version !== CONTENT_SNAPSHOT_VERSION ||
+        snapshot.spaceId !== this.identity.spaceId ||
+        snapshot.environment !== this.identity.environment ||
+        !snapshot.syncToken
+      ) {
+        return null;
+      }
+      return snapshot;
+    } catch (error) {
+      console.warn('Ignoring unreadable content snapshot:', error);
+      return null;
+    }
+  }
+
+  private async persist(snapshot: ContentSnapshot, delta: SyncDelta): Promise<ContentSnapshot> {
+    console.log('Contentful sync:', {
+      entries: Object.keys(snapshot.entries).length,
+      assets: Object.keys(snapshot.assets).length,
+      changed: delta.entries.length + delta.assets.length,
+      deleted: delta.deletedEntries.length + delta.deletedAssets.length,
+    });
+
+    try {
+      await this.store.save(snapshot);
+    } catch (error) {
+      // The build can still use the snapshot; the next build just syncs from scratch
+      console.warn('Failed to store content snapshot:', error);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Bring the snapshot up to date, falling back to a full sync when there is no usable stored token
+   */
+  async sync(now = new Date()): Promise<ContentSnapshot> {
+    const stored = await this.loadStoredSnapshot();
+
+    if (stored) {
+      try {
+        const delta = await this.source.sync({ nextSyncToken: stored.syncToken });
+        return await this.persist(applySyncDelta(stored, delta, now), delta);
+      } catch (error) {
+        // Tokens are rejected once they expire or the environment is recreated
+        console.warn('Delta sync failed, running a full sync:', error);
+      }
+    }
+
+    const delta = await this.source.sync({ initial: true });
+    return this.persist(applySyncDelta(createEmptySnapshot(this.identity), delta, now), delta);
+  }
+}
+
+function isLink(value: unknown): value is { sys: { type: 'Link'; linkType: string; id: string } } {
+  const sys = (value as { sys?: { type?: unknown } } | null)?.sys;
+  return typeof value === 'object' && value !== null && sys?.type === 'Link';
+}
+
+// Turns synced entities into the shape the Delivery API returns for a single locale with includes
+class SnapshotLinkResolver {
+  constructor(
+    private readonly snapshot: ContentSnapshot,
+    private readonly locale: string,
+    // The Sync API keys fields that are not localized, and untranslated ones, by the default locale only
+    private readonly fallbackLocale = locale
+  ) {}
+
+  private resolveValue(value: unknown, depth: number): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveValue(item, depth));
+    }
+
+    if (isLink(value)) {
+      const { linkType, id } = value.sys;
+      const target =
+        linkType === 'Entry'
+          ? this.snapshot.entries[id]
+          : linkType === 'Asset'
+            ? this.snapshot.assets[id]
+            : undefined;
+
+      // Unpublished or too deeply nested targets stay links, as they do in API responses
+      return target && depth > 0 ? this.resolve(target, depth - 1) : value;
+    }
+
+    // Rich Text embeds carry their links in node data, so walk nested objects too
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.resolveValue(item, depth)])
+      );
+    }
+
+    return value;
+  }
+
+  resolve(entity: SyncedEntity, depth = LINK_RESOLUTION_DEPTH): ContentfulEntry {
+    const fields = Object.fromEntries(
+      Object.entries(entity.fields)
+        .map(
+          ([name, values]) =>
+            [name, values?.[this.locale] ?? values?.[this.fallbackLocale]] as const
+        )
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => [name, this.resolveValue(value, depth)])
+    );
+
+    return { sys: entity.sys, fields } as unknown as ContentfulEntry;
+  }
+}
+
+function compareIds(a: { sys: { id: string } }, b: { sys: { id: string } }): number {
+  return a.sys.id < b.sys.id ? -1 : a.sys.id > b.sys.id ? 1 : 0;
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Newest first with sys.id breaking ties, like `order: ['-fields.publishedAt', 'sys.id']`
+function byPublishedAtDesc<T extends { sys: { id: string }; publishedAt: string }>(a: T, b: T) {
+  const time = (item: T) => Date.parse(item.publishedAt) || Number.NEGATIVE_INFINITY;
+  return time(b) - time(a) || compareIds(a, b);
+}
+
+function byName<T extends { sys: { id: string }; name: string }>(a: T, b: T) {
+  return compareStrings(a.name, b.name) || compareIds(a, b);
+}
+
+// Published content materialized once per snapshot, in the order the live queries return it
+class SnapshotContent {
+  readonly blogPosts: BlogPost[];
+  readonly guides: Guide[];
+  readonly categories: Category[];
+  readonly authors: Author[];
+  readonly faqEntries: FaqEntry[];
+
+  constructor(
+    snapshot: ContentSnapshot,
+    locale: string,
+    fallbackLocale: string,
+    validator: ContentValidator
+  ) {
+    const resolver = new SnapshotLinkResolver(snapshot, locale, fallbackLocale);
+    // Invalid entries are dropped before paging, so cached pages are always full
+    const transformAll = <T>(contentType: string, transform: (entry: ContentfulEntry) => T) =>
+      validator.transformAll(
+        Object.values(snapshot.entries)
+          .filter((entity) => entity.sys.contentType?.sys.id === contentType)
+          .map((entity) => resolver.resolve(entity)),
+        transform
+      );
+
+    this.blogPosts = transformAll('blogPost', transformBlogPost).sort(byPublishedAtDesc);
+    this.guides = transformAll('guide', transformGuide).sort(byPublishedAtDesc);
+    this.categories = transformAll('category', transformCategory).sort(byName);
+    this.authors = transformAll('author', transformAuthor).sort(byName);
+    this.faqEntries = transformAll('faqEntry', transformFaqEntry).sort(
+      (a, b) => a.order - b.order || compareIds(a, b)
+    );
+  }
+}
+
+function toPage<T>(items: T[], options: PageOptions): ContentPage<T> {
+  const { skip, limit } = resolvePageOptions(options);
+  return { items: items.slice(skip, skip + limit), total: items.length, skip, limit };
+}
+
+// ContentFetcher serving published reads from a synced snapshot; drafts still come from the Preview API
+export class CachedContentService implements ContentFetcher {
+  private snapshot: Promise<ContentSnapshot> | null = null;
+  private content: Promise<SnapshotContent> | null = null;
+  private readonly localized = new Map<string, CachedContentService>();
+
+  constructor(
+    private readonly loadSnapshot: () => Promise<ContentSnapshot>,
+    private readonly previewService: ContentFetcher,
+    private readonly locale = DEFAULT_SNAPSHOT_LOCALE,
+    private readonly validator: ContentValidator = getContentValidator(),
+    private readonly defaultLocale = locale
+  ) {}
+
+  // Every locale materializes its own content from the one snapshot this service loads
+  withLocale(locale: string): CachedContentService {
+    if (locale === this.locale) return this;
+
+    let service = this.localized.get(locale);
+    if (!service) {
+      service = new CachedContentService(
+        () => this.getSnapshot(),
+        this.previewService.withLocale(locale),
+        locale,
+        this.validator,
+        this.defaultLocale
+      );
+      this.localized.set(locale, service);
+    }
+    return service;
+  }
+
+  // Load the snapshot once; a failed load is retried by the next read
+  private getSnapshot(): Promise<ContentSnapshot> {
+    this.snapshot ??= this.loadSnapshot().catch((error) => {
+      this.snapshot = null;
+      throw error;
+    });
+    return this.snapshot;
+  }
+
+  private getContent(): Promise<SnapshotContent> {
+    this.content ??= this.getSnapshot().then(
+      (snapshot) => new SnapshotContent(snapshot, this.locale, this.defaultLocale, this.validator),
+      (error) => {
+        this.content = null;
+        throw error;
+      }
+    );
+    return this.content;
+  }
+
+  async getBlogPost(slug: string, preview = false): Promise<BlogPost | null> {
+    if (preview) return this.previewService.getBlogPost(slug, true);
+    const { blogPosts } = await this.getContent();
+    return blogPosts.find((post) => post.slug === slug) ?? null;
+  }
+
+  async getBlogPosts(limit = 10, preview = false): Promise<BlogPost[]> {
+    return (await this.getBlogPostsPage({ limit }, preview)).items;
+  }
+
+  async getBlogPostsPage(
+    options: PageOptions = {},
+    preview = false
+  ): Promise<ContentPage<BlogPost>> {
+    if (preview) return this.previewService.getBlogPostsPage(options, true);
+    return toPage((await this.getContent()).blogPosts, options);
+  }
+
+  iterateBlogPosts(
+    pageSize = DEFAULT_PAGE_SIZE,
+    preview = false
+  ): AsyncIterable<ContentPage<BlogPost>> {
+    return iteratePages((options) => this.getBlogPostsPage(options, preview), pageSize);
+  }
+
+  async getAllBlogPosts(preview = false): Promise<BlogPost[]> {
+    if (preview) return this.previewService.getAllBlogPosts(true);
+    return [...(await this.getContent()).blogPosts];
+  }
+
+  async getBlogPostsByCategory(categorySlug: string, preview = false): Promise<BlogPost[]> {
+    if (preview) return this.previewService.getBlogPostsByCategory(categorySlug, true);
+    const { blogPosts } = await this.getContent();
+    return blogPosts.filter((post) => post.category.slug === categorySlug);
+  }
+
+  async getBlogPostsByTag(tag: string, preview = false): Promise<BlogPost[]> {
+    if (preview) return this.previewService.getBlogPostsByTag(tag, true);
+    const { blogPosts } = await this.getContent();
+    return blogPosts.filter((post) => post.tags.includes(tag));
+  }
+
+  async getBlogPostsByAuthor(authorSlug: string, preview = false): Promise<BlogPost[]> {
+    if (preview) return this.previewService.getBlogPostsByAuthor(authorSlug, true);
+    const { blogPosts } = await this.getContent();
+    return blogPosts.filter((post) => post.author.slug === authorSlug);
+  }
+
+  async getGuide(slug: string, preview = false): Promise<Guide | null> {
+    if (preview) return this.previewService.getGuide(slug, true);
+    const { guides } = await this.getContent();
+    return guides.find((guide) => guide.slug === slug) ?? null;
+  }
+
+  async getGuides(limit = 10, preview = false): Promise<Guide[]> {
+    return (await this.getGuidesPage({ limit }, preview)).items;
+  }
+
+  async getGuidesPage(options: PageOptions = {}, preview = false): Promise<ContentPage<Guide>> {
+    if (preview) return this.previewService.getGuidesPage(options, true);
+    return toPage((await this.getContent()).guides, options);
+  }
+
+  iterateGuides(pageSize = DEFAULT_PAGE_SIZE, preview = false): AsyncIterable<ContentPage<Guide>> {
+    return iteratePages((options) => this.getGuidesPage(options, preview), pageSize);
+  }
+
+  async getAllGuides(preview = false): Promise<Guide[]> {
+    if (preview) return this.previewService.getAllGuides(true);
+    return [...(await this.getContent()).guides];
+  }
+
+  async getGuidesByCategory(categorySlug: string, preview = false): Promise<Guide[]> {
+    if (preview) return this.previewService.getGuidesByCategory(categorySlug, true);
+    const { guides } = await this.getContent();
+    return guides.filter((guide) => guide.category.slug === categorySlug);
+  }
+
+  async getCategory(slug: string, preview = false): Promise<Category | null> {
+    if (preview) return this.previewService.getCategory(slug, true);
+    const { categories } = await this.getContent();
+    return categories.find((category) => category.slug === slug) ?? null;
+  }
+
+  async getCategories(preview = false): Promise<Category[]> {
+    if (preview) return this.previewService.getCategories(true);
+    return [...(await this.getContent()).categories];
+  }
+
+  async getAuthor(slug: string, preview = false): Promise<Author | null> {
+    if (preview) return this.previewService.getAuthor(slug, true);
+    const { authors } = await this.getContent();
+    return authors.find((author) => author.slug === slug) ?? null;
+  }
+
+  async getAuthors(preview = false): Promise<Author[]> {
+    if (preview) return this.previewService.getAuthors(true);
+    return [...(await this.getContent()).authors];
+  }
+
+  async getFaqEntries(preview = false): Promise<FaqEntry[]> {
+    if (preview) return this.previewService.getFaqEntries(true);
+    return [...(await this.getContent()).faqEntries];
+  }
+}
+
+// Set by the contentful-sync-cache integration for `astro build`; "false" opts out
+export function isContentCacheEnabled(env: Record<string, string | undefined> = process.env) {
+  return env.CONTENTFUL_SYNC_CACHE === 'true';
+}
+
+// Every prerendered page calls createContentService(), so one snapshot serves the whole build
+let sharedCachedService: CachedContentService | null = null;
+
+/**
+ * Create the build-time cached service, or null when the cache is disabled or Contentful is not configured
+ */
+export function createCachedContentService(
+  env: Record<string, string | undefined> = process.env
+): CachedContentService | null {
+  if (!isContentCacheEnabled(env)) return null;
+  if (sharedCachedService) return sharedCachedService;
+
+  const config = getContentfulConfig(env);
+  if (!config) return null;
+
+  const policies = createRequestPolicies(env);
+  const deliveryClient = createDeliveryClient(config, policies.delivery);
+  const identity = { spaceId: config.spaceId, environment: config.environment };
+  const snapshotSync = new ContentSnapshotSync(
+    createSyncSource(deliveryClient, policies.delivery),
+    new FileSnapshotStore(getSnapshotPath(identity, env.CONTENTFUL_CACHE_DIR || undefined)),
+    identity
+  );
+
+  sharedCachedService = new CachedContentService(
+    () => snapshotSync.sync(),
+    new ContentfulService(deliveryClient, createPreviewClient(config, policies.preview), policies),
+    getLocaleConfig(env).defaultLocale.code
+  );
+  return sharedCachedService;
+}
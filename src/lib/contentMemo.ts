@@ -0,0 +1,256 @@
+// Request memoization for ContentFetcher
+// Coalesces identical in-flight requests and reuses settled results for a bounded time
+
+import {
+  type Author,
+  type BlogPost,
+  type Category,
+  type ContentFetcher,
+  type ContentPage,
+  DEFAULT_PAGE_SIZE,
+  type FaqEntry,
+  type Guide,
+  type PageOptions,
+  iteratePages,
+} from './contentful.js';
+
+// Long enough to cover a build's prerender pass, short enough that warm SSR instances
+// see newly published content within a minute
+export const DEFAULT_MEMO_TTL = 60 * 1000;
+
+// Drafts change while editors watch, so preview results are only shared while in flight
+export const DEFAULT_PREVIEW_MEMO_TTL = 0;
+
+// Delivery and preview results never share cache entries
+export type ContentKeyspace = 'delivery' | 'preview';
+
+export interface ContentMemoOptions {
+  // How long settled delivery results are reused, in milliseconds
+  ttl?: number;
+  // How long settled preview results are reused, in milliseconds
+  previewTtl?: number;
+  now?: () => number;
+}
+
+interface MemoEntry {
+  value: Promise<unknown>;
+  // Infinity while the request is still in flight
+  expiresAt: number;
+}
+
+// Keyed promise cache with one map per keyspace
+export class ContentMemo {
+  private readonly keyspaces: Record<ContentKeyspace, Map<string, MemoEntry>> = {
+    delivery: new Map(),
+    preview: new Map(),
+  };
+  private readonly ttls: Record<ContentKeyspace, number>;
+  private readonly now: () => number;
+
+  constructor(options: ContentMemoOptions = {}) {
+    this.ttls = {
+      delivery: options.ttl ?? DEFAULT_MEMO_TTL,
+      preview: options.previewTtl ?? DEFAULT_PREVIEW_MEMO_TTL,
+    };
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Return the in-flight or unexpired result for a key, calling `load` only when there is neither
+   */
+  get<T>(keyspace: ContentKeyspace, key: string, load: () => Promise<T>): Promise<T> {
+    const entries = this.keyspaces[keyspace];
+    const cached = entries.get(key);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.value as Promise<T>;
+    }
+
+    const ttl = this.ttls[keyspace];
+    const entry: MemoEntry = { value: Promise.resolve(), expiresAt: Number.POSITIVE_INFINITY };
+    const value = load().then(
+      (result) => {
+        entry.expiresAt = this.now() + ttl;
+        if (ttl <= 0 && entries.get(key) === entry) entries.delete(key);
+        return result;
+      },
+      (error) => {
+        // Failures are never reused so the next caller retries
+        if (entries.get(key) === entry) entries.delete(key);
+        throw error;
+      }
+    );
+    entry.value = value;
+    entries.set(key, entry);
+
+    return value;
+  }
+
+  /**
+   * Drop cached results for one keyspace, or for both when none is given
+   */
+  clear(keyspace?: ContentKeyspace): void {
+    for (const name of keyspace ? [keyspace] : (['delivery', 'preview'] as const)) {
+      this.keyspaces[name].clear();
+    }
+  }
+
+  size(keyspace: ContentKeyspace): number {
+    return this.keyspaces[keyspace].size;
+  }
+}
+
+// Callers may sort or splice what they receive, so never hand out the memoized array itself
+function copyArray<T>(value: T): T {
+  return (Array.isArray(value) ? [...value] : value) as T;
+}
+
+// ContentFetcher decorator that memoizes every read of the wrapped service
+export class MemoizedContentService implements ContentFetcher {
+  constructor(
+    private readonly inner: ContentFetcher,
+    private readonly memo = new ContentMemo(),
+    // Keeps localized results apart in a shared memo; omitted for the default locale
+    private readonly locale?: string
+  ) {}
+
+  withLocale(locale: string): MemoizedContentService {
+    return new MemoizedContentService(this.inner.withLocale(locale), this.memo, locale);
+  }
+
+  private memoize<T>(
+    method: string,
+    args: unknown[],
+    preview: boolean,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const scope = this.locale ? `${this.locale}/` : '';
+    const key = `${scope}${method}:${JSON.stringify(args)}`;
+    return this.memo.get(preview ? 'preview' : 'delivery', key, load).then(copyArray);
+  }
+
+  // Default omitted options so `{}` and `{ skip: 0, limit: 100 }` share an entry
+  private pageKey(options: PageOptions): [number, number] {
+    return [options.skip ?? 0, options.limit ?? DEFAULT_PAGE_SIZE];
+  }
+
+  getBlogPost(slug: string, preview = false): Promise<BlogPost | null> {
+    return this.memoize('getBlogPost', [slug], preview, () =>
+      this.inner.getBlogPost(slug, preview)
+    );
+  }
+
+  getBlogPosts(limit = 10, preview = false): Promise<BlogPost[]> {
+    return this.memoize('getBlogPosts', [limit], preview, () =>
+      this.inner.getBlogPosts(limit, preview)
+    );
+  }
+
+  getBlogPostsPage(options: PageOptions = {}, preview = false): Promise<ContentPage<BlogPost>> {
+    return this.memoize('getBlogPostsPage', this.pageKey(options), preview, () =>
+      this.inner.getBlogPostsPage(options, preview)
+    );
+  }
+
+  iterateBlogPosts(
+    pageSize = DEFAULT_PAGE_SIZE,
+    preview = false
+  ): AsyncIterable<ContentPage<BlogPost>> {
+    return iteratePages((options) => this.getBlogPostsPage(options, preview), pageSize);
+  }
+
+  getAllBlogPosts(preview = false): Promise<BlogPost[]> {
+    return this.memoize('getAllBlogPosts', [], preview, () => this.inner.getAllBlogPosts(preview));
+  }
+
+  getBlogPostsByCategory(categorySlug: string, preview = false): Promise<BlogPost[]> {
+    return this.memoize('getBlogPostsByCategory', [categorySlug], preview, () =>
+      this.inner.getBlogPostsByCategory(categorySlug, preview)
+    );
+  }
+
+  getBlogPostsByTag(tag: string, preview = false): Promise<BlogPost[]> {
+    return this.memoize('getBlogPostsByTag', [tag], preview, () =>
+      this.inner.getBlogPostsByTag(tag, preview)
+    );
+  }
+
+  getBlogPostsByAuthor(authorSlug: string, preview = false): Promise<BlogPost[]> {
+    return this.memoize('getBlogPostsByAuthor', [authorSlug], preview, () =>
+      this.inner.getBlogPostsByAuthor(authorSlug, preview)
+    );
+  }
+
+  getGuide(slug: string, preview = false): Promise<Guide | null> {
+    return this.memoize('getGuide', [slug], preview, () => this.inner.getGuide(slug, preview));
+  }
+
+  getGuides(limit = 10, preview = false): Promise<Guide[]> {
+    return this.memoize('getGuides', [limit], preview, () => this.inner.getGuides(limit, preview));
+  }
+
+  getGuidesPage(options: PageOptions = {}, preview = false): Promise<ContentPage<Guide>> {
+    return this.memoize('getGuidesPage', this.pageKey(options), preview, () =>
+      this.inner.getGuidesPage(options, preview)
+    );
+  }
+
+  iterateGuides(pageSize = DEFAULT_PAGE_SIZE, preview = false): AsyncIterable<ContentPage<Guide>> {
+    return iteratePages((options) => this.getGuidesPage(options, preview), pageSize);
+  }
+
+  getAllGuides(preview = false): Promise<Guide[]> {
+    return this.memoize('getAllGuides', [], preview, () => this.inner.getAllGuides(preview));
+  }
+
+  getGuidesByCategory(categorySlug: string, preview = false): Promise<Guide[]> {
+    return this.memoize('getGuidesByCategory', [categorySlug], preview, () =>
+      this.inner.getGuidesByCategory(categorySlug, preview)
+    );
+  }
+
+  getCategory(slug: string, preview = false): Promise<Category | null> {
+    return this.memoize('getCategory', [slug], preview, () =>
+      this.inner.getCategory(slug, preview)
+    );
+  }
+
+  getCategories(preview = false): Promise<Category[]> {
+    return this.memoize('getCategories', [], preview, () => this.inner.getCategories(preview));
+  }
+
+  getAuthor(slug: string, preview = false): Promise<Author | null> {
+    return this.memoize('getAuthor', [slug], preview, () => this.inner.getAuthor(slug, preview));
+  }
+
+  getAuthors(preview = false): Promise<Author[]> {
+    return this.memoize('getAuthors', [], preview, () => this.inner.getAuthors(preview));
+  }
+
+  getFaqEntries(preview = false): Promise<FaqEntry[]> {
+    return this.memoize('getFaqEntries', [], preview, () => this.inner.getFaqEntries(preview));
+  }
+}
+
+// Read the delivery TTL in seconds from CONTENTFUL_MEMO_TTL; 0 keeps only in-flight coalescing
+export function getMemoTtl(env: Record<string, string | undefined> = process.env): number {
+  const seconds = Number.parseInt(env.CONTENTFUL_MEMO_TTL ?? '', 10);
+  return Number.isInteger(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_MEMO_TTL;
+}
+
+// Every page builds its own service through createContentService(), so they share one memo
+let sharedMemo: ContentMemo | null = null;
+
+/**
+ * Wrap a content service with the process-wide memo
+ */
+export function createMemoizedContentService(inner: ContentFetcher): MemoizedContentService {
+  sharedMemo ??= new ContentMemo({ ttl: getMemoTtl() });
+  return new MemoizedContentService(inner, sharedMemo);
+}
+
+/**
+ * Drop results held by the process-wide memo, e.g. when a webhook reports published changes
+ */
+export function clearSharedContentMemo(keyspace?: ContentKeyspace): void {
+  sharedMemo?.clear(keyspace);
+}
@@ -0,0 +1,130 @@
+// Generated by scripts/generate-content-types.js from contentful/content-model.json; do not edit
+// Raw field types per content type, with links typed as the resolved entries validation requires
+
+import type { RichTextDocument } from './contentful.js';
+
+export const CONTENT_TYPE_IDS = [
+  'author',
+  'blogPost',
+  'category',
+  'faqEntry',
+  'guide',
+  'guideStep',
+] as const;
+
+export type ContentTypeId = (typeof CONTENT_TYPE_IDS)[number];
+
+export interface ContentModelSys {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  contentType?: { sys: { id: string } };
+}
+
+export interface ContentModelEntry<TFields> {
+  sys: ContentModelSys;
+  fields: TFields;
+}
+
+export type UnknownEntry = ContentModelEntry<Record<string, unknown>>;
+
+// Built-in asset fields, which are not part of the content model export
+export interface AssetFields {
+  title?: string;
+  description?: string;
+  file: {
+    url: string;
+    fileName: string;
+    contentType: string;
+    details: { size: number; image?: { width: number; height: number } };
+  };
+}
+
+export type AssetEntry = ContentModelEntry<AssetFields>;
+
+// Author: Writer credited on blog posts
+export interface AuthorFields {
+  name: string;
+  slug: string;
+  bio?: string;
+  avatar?: AssetEntry;
+  socialLinks?: unknown;
+}
+
+export type AuthorEntry = ContentModelEntry<AuthorFields>;
+
+// Blog Post: Article published under /blog
+export interface BlogPostFields {
+  title: string;
+  slug: string;
+  excerpt?: string;
+  content: RichTextDocument;
+  featuredImage?: AssetEntry;
+  author: AuthorEntry;
+  category: CategoryEntry;
+  tags?: string[];
+  publishedAt: string;
+  seoTitle?: string;
+  seoDescription?: string;
+  seoImage?: AssetEntry;
+}
+
+export type BlogPostEntry = ContentModelEntry<BlogPostFields>;
+
+// Category: Topic grouping blog posts and guides
+export interface CategoryFields {
+  name: string;
+  slug: string;
+  description?: string;
+  featuredImage?: AssetEntry;
+  color?: string;
+}
+
+export type CategoryEntry = ContentModelEntry<CategoryFields>;
+
+// FAQ Entry: Question and answer shown on /faq
+export interface FaqEntryFields {
+  question: string;
+  answer: string;
+  category?: string;
+  order: number;
+}
+
+export type FaqEntryEntry = ContentModelEntry<FaqEntryFields>;
+
+// Guide: Step-by-step tutorial published under /guides
+export interface GuideFields {
+  title: string;
+  slug: string;
+  description?: string;
+  content: RichTextDocument;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  estimatedTime: number;
+  steps?: GuideStepEntry[];
+  featuredImage?: AssetEntry;
+  category: CategoryEntry;
+  tools?: string[];
+  publishedAt: string;
+}
+
+export type GuideEntry = ContentModelEntry<GuideFields>;
+
+// Guide Step: Single instruction linked from a guide's steps
+export interface GuideStepFields {
+  title: string;
+  content: RichTextDocument;
+  image?: AssetEntry;
+}
+
+export type GuideStepEntry = ContentModelEntry<GuideStepFields>;
+
+// Raw fields by content type ID, plus assets
+export interface ContentFields {
+  asset: AssetFields;
+  author: AuthorFields;
+  blogPost: BlogPostFields;
+  category: CategoryFields;
+  faqEntry: FaqEntryFields;
+  guide: GuideFields;
+  guideStep: GuideStepFields;
+}
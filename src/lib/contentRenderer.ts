@@ -0,0 +1,445 @@
+// Content rendering utilities
+// Turns Contentful Rich Text documents and Markdown bodies into sanitized HTML blocks
+
+import {
+  type ContentBody,
+  type ContentfulAsset,
+  type RichTextDocument,
+  type RichTextElement,
+  type RichTextNode,
+  type RichTextText,
+  isRichTextDocument,
+} from './contentful.js';
+import { parseMarkdown } from './markdown.js';
+import { type UrlPatternManager, createUrlPatternManager } from './urlPatterns.js';
+
+// Heading extracted from a rendered body, used for anchors and navigation
+export interface ContentHeading {
+  depth: number;
+  text: string;
+  id: string;
+}
+
+// Rendered output is split around embedded assets so pages can render them with OptimizedImage
+export type RenderedBlock =
+  | { type: 'html'; html: string }
+  | { type: 'asset'; asset: ContentfulAsset };
+
+export interface RenderedContent {
+  blocks: RenderedBlock[];
+  headings: ContentHeading[];
+}
+
+// Anchor IDs already used on a page, with how many times each base ID was claimed
+export type AnchorRegistry = Map<string, number>;
+
+// Per-render state: collected headings, anchor IDs already in use and list nesting
+interface RenderState {
+  headings: ContentHeading[];
+  usedIds: AnchorRegistry;
+  listDepth: number;
+}
+
+// Contentful content type IDs mapped to their public URL generators
+type EntryUrlResolver = (urlManager: UrlPatternManager, slug: string) => string;
+
+const ENTRY_URL_RESOLVERS: Record<string, EntryUrlResolver> = {
+  blogPost: (urlManager, slug) => urlManager.generateBlogPostUrl({ slug }),
+  guide: (urlManager, slug) => urlManager.generateGuideUrl({ slug }),
+  category: (urlManager, slug) => urlManager.generateCategoryUrl({ slug }),
+  faqEntry: (urlManager) => urlManager.generateFaqUrl(),
+};
+
+const MARK_TAGS: Record<string, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  code: 'code',
+  superscript: 'sup',
+  subscript: 'sub',
+  strikethrough: 's',
+};
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/**
+ * Content body renderer
+ * Produces HTML only from known node types and escapes every text value,
+ * so CMS content can never inject markup or scripts
+ */
+export class ContentRenderer {
+  private readonly urlManager: UrlPatternManager;
+
+  constructor(urlManager: UrlPatternManager) {
+    this.urlManager = urlManager;
+  }
+
+  /**
+   * Render a content body into HTML blocks and a list of anchored headings
+   * Markdown strings are parsed into Rich Text first so both sources render identically.
+   * Pass one registry to every render call for a page so anchors stay unique across bodies
+   */
+  render(body: ContentBody, anchorIds: AnchorRegistry = new Map()): RenderedContent {
+    const document = toRichTextDocument(body);
+    const state: RenderState = { headings: [], usedIds: anchorIds, listDepth: 0 };
+    const blocks: RenderedBlock[] = [];
+    let html = '';
+
+    for (const node of document.content) {
+      const asset = node.nodeType === 'embedded-asset-block' ? this.resolveImageAsset(node) : null;
+
+      if (asset) {
+        if (html) {
+          blocks.push({ type: 'html', html });
+          html = '';
+        }
+        blocks.push({ type: 'asset', asset });
+        continue;
+      }
+
+      html += this.renderNode(node, state);
+    }
+
+    if (html) {
+      blocks.push({ type: 'html', html });
+    }
+
+    return { blocks, headings: state.headings };
+  }
+
+  private renderNode(node: RichTextNode, state: RenderState): string {
+    if (isTextNode(node)) {
+      return this.renderText(node);
+    }
+
+    const children = () => node.content.map((child) => this.renderNode(child, state)).join('');
+
+    switch (node.nodeType) {
+      case 'paragraph':
+        return this.renderParagraph(node, state, children);
+
+      case 'heading-1':
+      case 'heading-2':
+      case 'heading-3':
+      case 'heading-4':
+      case 'heading-5':
+      case 'heading-6':
+        return this.renderHeading(node, state, children);
+
+      case 'unordered-list':
+      case 'ordered-list': {
+        const tag = node.nodeType === 'ordered-list' ? 'ol' : 'ul';
+        state.listDepth++;
+        const items = children();
+        state.listDepth--;
+        return `<${tag}>${items}</${tag}>`;
+      }
+
+      case 'list-item':
+        return `<li>${children()}</li>`;
+
+      case 'blockquote':
+        return `<blockquote>${children()}</blockquote>`;
+
+      case 'hr':
+        return '<hr />';
+
+      case 'table':
+        return `<table><tbody>${children()}</tbody></table>`;
+
+      case 'table-row':
+        return `<tr>${children()}</tr>`;
+
+      case 'table-header-cell':
+        return `<th>${children()}</th>`;
+
+      case 'table-cell':
+        return `<td>${children()}</td>`;
+
+      case 'hyperlink':
+        return this.renderLink(sanitizeUrl(node.data.uri), children());
+
+      case 'entry-hyperlink':
+      case 'embedded-entry-inline':
+        return this.renderLink(
+          this.resolveEntryUrl(node.data.target),
+          children() || escapeHtml(entryTitle(node.data.target))
+        );
+
+      case 'embedded-entry-block': {
+        const url = this.resolveEntryUrl(node.data.target);
+        const title = entryTitle(node.data.target);
+        return url && title
+          ? `<p class="embedded-entry">${this.renderLink(url, escapeHtml(title))}</p>`
+          : '';
+      }
+
+      case 'asset-hyperlink':
+      case 'embedded-asset-block': {
+        const asset = toContentfulAsset(node.data.target);
+        const label = children() || escapeHtml(asset?.fields.title || '');
+        return this.renderLink(asset ? sanitizeUrl(asset.fields.file.url) : null, label);
+      }
+
+      default:
+        // Unknown node types render their text content only
+        return children();
+    }
+  }
+
+  private renderText(node: RichTextText): string {
+    const marks = node.marks.map((mark) => mark.type);
+    let html = escapeHtml(node.value);
+
+    if (!marks.includes('code')) {
+      html = html.replace(/\n/g, '<br />');
+    }
+
+    for (const mark of marks) {
+      const tag = MARK_TAGS[mark];
+      if (tag) {
+        html = `<${tag}>${html}</${tag}>`;
+      }
+    }
+
+    return html;
+  }
+
+  private renderParagraph(
+    node: RichTextElement,
+    state: RenderState,
+    children: () => string
+  ): string {
+    // Contentful stores code blocks as paragraphs whose text is entirely code-marked
+    const isCodeBlock =
+      state.listDepth === 0 &&
+      node.content.length > 0 &&
+      node.content.every(
+        (child) => isTextNode(child) && child.marks.some((mark) => mark.type === 'code')
+      );
+
+    if (isCodeBlock) {
+      const code = (node.content as RichTextText[]).map((child) => child.value).join('');
+      return `<pre><code>${escapeHtml(code)}</code></pre>`;
+    }
+
+    const html = children();
+    return html.trim() ? `<p>${html}</p>` : '';
+  }
+
+  private renderHeading(node: RichTextElement, state: RenderState, children: () => string): string {
+    // The page title owns the only <h1>, so body headings start at <h2>
+    const depth = Math.max(2, Number(node.nodeType.slice(-1)));
+    const text = collectText(node.content).replace(/\s+/g, ' ').trim();
+    const id = createAnchorId(text, state.usedIds);
+
+    state.headings.push({ depth, text, id });
+
+    return `<h${depth} id="${id}">${children()}<a class="heading-anchor" href="#${id}" aria-label="Link to ${escapeHtml(text)}">#</a></h${depth}>`;
+  }
+
+  private renderLink(url: string | null, label: string): string {
+    if (!url) {
+      return label;
+    }
+
+    const isExternal = /^(https?:)?\/\//.test(url);
+    const rel = isExternal ? ' rel="noopener noreferrer"' : '';
+    return `<a href="${escapeHtml(url)}"${rel}>${label}</a>`;
+  }
+
+  private resolveEntryUrl(target: unknown): string | null {
+    const contentTypeId = entryContentTypeId(target);
+    const slug = (target as { fields?: { slug?: unknown } })?.fields?.slug;
+    const resolver = contentTypeId ? ENTRY_URL_RESOLVERS[contentTypeId] : undefined;
+
+    if (!resolver) {
+      return null;
+    }
+
+    try {
+      return resolver(this.urlManager, typeof slug === 'string' ? slug : '');
+    } catch {
+      // Invalid or missing slug: render the link text without a link
+      return null;
+    }
+  }
+
+  private resolveImageAsset(node: RichTextNode): ContentfulAsset | null {
+    if (isTextNode(node)) return null;
+
+    const asset = toContentfulAsset(node.data.target);
+    if (!asset || !asset.fields.file.contentType.startsWith('image/')) {
+      return null;
+    }
+
+    return asset;
+  }
+}
+
+/**
+ * Convert a stored content body into a Rich Text document
+ */
+export function toRichTextDocument(body: ContentBody): RichTextDocument {
+  if (isRichTextDocument(body)) {
+    return body;
+  }
+
+  return parseMarkdown(typeof body === 'string' ? body : '');
+}
+
+/**
+ * Extract plain text from a content body
+ * Used where markup is not allowed, such as structured data and reading time
+ */
+export function getPlainText(body: ContentBody): string {
+  const document = toRichTextDocument(body);
+  return document.content
+    .map((node) => collectText([node]))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Generate a stable anchor ID from heading text
+ * Also used for FAQ question anchors, so heading and question links follow the same rules
+ */
+export function slugifyHeading(text: string, fallback = 'section'): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/\p{Diacritic}/gu, '') // Strip diacritics
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return slug || fallback;
+}
+
+/**
+ * Claim a unique anchor ID for heading text on a page
+ * Repeated headings get numbered suffixes: setup, setup-2, setup-3
+ */
+export function createAnchorId(text: string, anchorIds: AnchorRegistry): string {
+  return claimAnchorId(slugifyHeading(text), anchorIds);
+}
+
+/**
+ * Claim a unique anchor ID on a page, numbering repeats of an already slugified ID
+ */
+export function claimAnchorId(baseId: string, anchorIds: AnchorRegistry): string {
+  let count = anchorIds.get(baseId) ?? 0;
+  let id = count === 0 ? baseId : `${baseId}-${count + 1}`;
+
+  // Skip suffixed IDs a literal heading has already claimed
+  while (count > 0 && anchorIds.has(id)) {
+    count++;
+    id = `${baseId}-${count + 1}`;
+  }
+
+  anchorIds.set(baseId, count + 1);
+  if (id !== baseId) anchorIds.set(id, 1);
+  return id;
+}
+
+/**
+ * Select the headings shown in a table of contents
+ * Only h2 and h3 are listed so long posts keep a scannable outline
+ */
+export function buildTableOfContents(headings: ContentHeading[], maxDepth = 3): ContentHeading[] {
+  return headings.filter((heading) => heading.depth >= 2 && heading.depth <= maxDepth);
+}
+
+/**
+ * Escape HTML special characters in text and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Allow only relative URLs and known-safe protocols in links
+ * Returns null for javascript:, data: and other unsafe schemes
+ */
+export function sanitizeUrl(uri: unknown): string | null {
+  if (typeof uri !== 'string') return null;
+
+  // Drop whitespace and control characters browsers ignore inside schemes
+  const url = Array.from(uri)
+    .filter((char) => char.charCodeAt(0) > 32 && char.charCodeAt(0) !== 127)
+    .join('');
+
+  if (!url) return null;
+  if (url.startsWith('//')) return `https:${url}`;
+  if (/^[/#?.]/.test(url)) return url;
+
+  const protocol = url.match(/^([a-z][a-z0-9+.-]*:)/i)?.[1].toLowerCase();
+  if (!protocol) return url; // Bare relative path
+  return SAFE_URL_PROTOCOLS.includes(protocol) ? url : null;
+}
+
+function isTextNode(node: RichTextNode): node is RichTextText {
+  return node.nodeType === 'text';
+}
+
+function collectText(nodes: RichTextNode[]): string {
+  return nodes
+    .map((node) => (isTextNode(node) ? node.value : ` ${collectText(node.content)} `))
+    .join('');
+}
+
+function entryContentTypeId(target: unknown): string | undefined {
+  const id = (target as { sys?: { contentType?: { sys?: { id?: unknown } } } })?.sys?.contentType
+    ?.sys?.id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function entryTitle(target: unknown): string {
+  const fields = (target as { fields?: Record<string, unknown> })?.fields ?? {};
+  const title = fields.title ?? fields.name ?? fields.question;
+  return typeof title === 'string' ? title : '';
+}
+
+/**
+ * Narrow a resolved Rich Text link target to a ContentfulAsset
+ * Protocol-relative Contentful asset URLs are made absolute
+ */
+function toContentfulAsset(target: unknown): ContentfulAsset | undefined {
+  const candidate = target as Partial<ContentfulAsset> | undefined;
+  const file = candidate?.fields?.file;
+
+  if (!candidate?.sys || typeof file?.url !== 'string') {
+    return undefined;
+  }
+
+  return {
+    sys: {
+      id: candidate.sys.id,
+      createdAt: candidate.sys.createdAt,
+      updatedAt: candidate.sys.updatedAt,
+    },
+    fields: {
+      title: typeof candidate.fields?.title === 'string' ? candidate.fields.title : '',
+      description: candidate.fields?.description,
+      file: {
+        ...file,
+        url: file.url.startsWith('//') ? `https:${file.url}` : file.url,
+        contentType: file.contentType || '',
+        details: file.details || { size: 0 },
+      },
+    },
+  };
+}
+
+/**
+ * Factory function to create ContentRenderer with site configuration
+ * Uses the shared UrlPatternManager so entry links match route patterns
+ */
+export function createContentRenderer(): ContentRenderer {
+  return new ContentRenderer(createUrlPatternManager());
+}
@@ -1,13 +1,16 @@
 // Content type-specific SEO meta tag generation
 // Implements centralized logic for generating meta tags based on content type
 
-import type { BlogPost, Guide, Category, FaqEntry } from './contentful.js';
+import type { Author, BlogPost, Guide, Category, FaqEntry } from './contentful.js';
+import { getTagIndexThreshold, isTagIndexable } from './tags.js';
 
 // SeoHeadProps interface (duplicated to avoid circular dependency)
 interface SeoHeadProps {
   title: string;
   description: string;
   canonical?: string;
+  prev?: string;
+  next?: string;
   ogImage?: string;
   ogType?: 'website' | 'article';
   noindex?: boolean;
@@ -22,7 +25,23 @@ interface BreadcrumbItem {
 }
 
 // Content type enumeration
-export type ContentType = 'blog' | 'guide' | 'category' | 'faq' | 'homepage' | 'search';
+export type ContentType =
+  | 'blog'
+  | 'guide'
+  | 'category'
+  | 'author'
+  | 'tag'
+  | 'faq'
+  | 'homepage'
+  | 'search';
+
+// Position of a page within a paginated archive
+export interface ArchivePagination {
+  currentPage: number;
+  totalPages: number;
+  prevPath?: string;
+  nextPath?: string;
+}
 
 // Base SEO configuration interface
 interface BaseSeoConfig {
@@ -116,6 +135,85 @@ export class ContentTypeSeoGenerator {
     };
   }
 
+  /**
+   * Generate SEO meta tags for paginated archive and hub pages
+   * Each page is self-canonical and linked to its neighbours with rel=prev/next
+   */
+  generateArchiveSeo(
+    archiveName: string,
+    description: string,
+    canonicalPath: string,
+    pagination?: ArchivePagination
+  ): SeoHeadProps {
+    const canonicalUrl = this.buildCanonicalUrl(canonicalPath);
+    const isFirstPage = !pagination || pagination.currentPage === 1;
+
+    // Later pages get distinct titles and descriptions to avoid duplicate snippets
+    const pageLabel = isFirstPage
+      ? ''
+      : ` - Page ${pagination.currentPage} of ${pagination.totalPages}`;
+
+    return {
+      title: `${archiveName}${pageLabel} - ${this.config.siteName}`,
+      description: isFirstPage
+        ? description
+        : `${description} Page ${pagination.currentPage} of ${pagination.totalPages}.`,
+      canonical: canonicalUrl,
+      prev: pagination?.prevPath ? this.buildCanonicalUrl(pagination.prevPath) : undefined,
+      next: pagination?.nextPath ? this.buildCanonicalUrl(pagination.nextPath) : undefined,
+      ogType: 'website',
+      ogImage: this.config.defaultOgImage,
+      noindex: false,
+      nofollow: false,
+    };
+  }
+
+  /**
+   * Generate SEO meta tags for author profile pages
+   * Uses the author bio and avatar, falling back to a generated summary
+   */
+  generateAuthorSeo(author: Author, canonicalPath: string, postCount?: number): SeoHeadProps {
+    const canonicalUrl = this.buildCanonicalUrl(canonicalPath);
+
+    let description = author.bio || `Articles by ${author.name} on ${this.config.siteName}.`;
+    if (postCount !== undefined) {
+      description += ` ${postCount} ${postCount === 1 ? 'article' : 'articles'} published.`;
+    }
+
+    return {
+      title: `${author.name} - ${this.config.siteName}`,
+      description,
+      canonical: canonicalUrl,
+      ogType: 'website',
+      ogImage: this.getOptimalImage(author.avatar?.fields.file.url, this.config.defaultOgImage),
+      noindex: false,
+      nofollow: false,
+    };
+  }
+
+  /**
+   * Generate SEO meta tags for tag archive pages
+   * Tags with fewer posts than the threshold are noindexed as thin content
+   */
+  generateTagSeo(
+    tagName: string,
+    canonicalPath: string,
+    postCount: number,
+    minPostsToIndex = getTagIndexThreshold()
+  ): SeoHeadProps {
+    const canonicalUrl = this.buildCanonicalUrl(canonicalPath);
+
+    return {
+      title: `#${tagName} - ${this.config.siteName}`,
+      description: `${postCount} ${postCount === 1 ? 'article' : 'articles'} tagged "${tagName}" on ${this.config.siteName}.`,
+      canonical: canonicalUrl,
+      ogType: 'website',
+      ogImage: this.config.defaultOgImage,
+      noindex: !isTagIndexable(postCount, minPostsToIndex),
+      nofollow: false,
+    };
+  }
+
   /**
    * Generate SEO meta tags for FAQ content type
    * Optimized for FAQ pages with question count
@@ -282,6 +380,8 @@ export function detectContentTypeFromPath(path: string): ContentType {
   if (path.startsWith('/blog/')) return 'blog';
   if (path.startsWith('/guides/')) return 'guide';
   if (path.startsWith('/category/')) return 'category';
+  if (path.startsWith('/author/')) return 'author';
+  if (path.startsWith('/tag/')) return 'tag';
   if (path.startsWith('/faq')) return 'faq';
   if (path.startsWith('/search')) return 'search';
 
@@ -1,7 +1,9 @@
 // Content type-specific structured data generation
 // Implements dynamic schema generation based on content type and context
 
-import type { BlogPost, Guide, Category, FaqEntry } from './contentful.js';
+import type { ContentHeading } from './contentRenderer.js';
+import type { Author, BlogPost, Category, FaqEntry, Guide } from './contentful.js';
+import { getLocaleConfig } from './locales.js';
 import { createSchemaGenerator } from './schemas.js';
 
 // Content type enumeration for structured data
@@ -9,13 +11,27 @@ export type StructuredDataContentType =
   | 'blog'
   | 'guide'
   | 'category'
+  | 'author'
   | 'faq'
   | 'homepage'
   | 'search';
 
+// Listing page described by a CollectionPage schema
+export interface CollectionPageContent {
+  name: string;
+  description: string;
+  canonicalUrl: string;
+  items: Array<{ name: string; url: string }>;
+  breadcrumbs: Array<{ name: string; url: string }>;
+  // Zero-based position of the first item within the whole paginated listing
+  startIndex?: number;
+}
+
 // Enhanced structured data configuration
 interface StructuredDataConfig {
   siteUrl: string;
+  // BCP 47 code of the page language, e.g. `en-US`
+  language: string;
   siteName: string;
   organizationName: string;
   logoUrl?: string;
@@ -32,7 +48,7 @@ export class ContentTypeStructuredDataGenerator {
 
   constructor(config: StructuredDataConfig) {
     this.config = config;
-    this.schemaGenerator = createSchemaGenerator();
+    this.schemaGenerator = createSchemaGenerator(config.language);
   }
 
   /**
@@ -42,19 +58,24 @@ export class ContentTypeStructuredDataGenerator {
   generateBlogPostStructuredData(
     post: BlogPost,
     canonicalUrl: string,
-    includeOrganization = true
+    includeOrganization = true,
+    tableOfContents: ContentHeading[] = []
   ): Record<string, unknown>[] {
     const schemas: Record<string, unknown>[] = [];
 
     // Add BlogPosting schema
-    const blogPostingSchema = this.schemaGenerator.generateBlogPostingSchema(post, canonicalUrl);
+    const blogPostingSchema = this.schemaGenerator.generateBlogPostingSchema(
+      post,
+      canonicalUrl,
+      tableOfContents
+    );
     schemas.push(blogPostingSchema as unknown as Record<string, unknown>);
 
     // Add BreadcrumbList schema if applicable
     const breadcrumbs = [
       { name: 'Home', url: '/' },
       { name: 'Blog', url: '/blog' },
-      { name: post.title, url: `/blog/${post.slug}` },
+      { name: post.title, url: canonicalUrl },
     ];
     const breadcrumbSchema = this.schemaGenerator.generateBreadcrumbListSchema(breadcrumbs);
     schemas.push(breadcrumbSchema as unknown as Record<string, unknown>);
@@ -87,7 +108,7 @@ export class ContentTypeStructuredDataGenerator {
     const breadcrumbs = [
       { name: 'Home', url: '/' },
       { name: 'Guides', url: '/guides' },
-      { name: guide.title, url: `/guides/${guide.slug}` },
+      { name: guide.title, url: canonicalUrl },
     ];
     const breadcrumbSchema = this.schemaGenerator.generateBreadcrumbListSchema(breadcrumbs);
     schemas.push(breadcrumbSchema as unknown as Record<string, unknown>);
@@ -142,6 +163,82 @@ export class ContentTypeStructuredDataGenerator {
     return schemas;
   }
 
+  /**
+   * Generate structured data for archive and hub listing pages
+   * Returns CollectionPage schema whose ItemList mirrors the items on the page
+   */
+  generateCollectionStructuredData(collection: CollectionPageContent): Record<string, unknown>[] {
+    const schemas: Record<string, unknown>[] = [];
+    const startIndex = collection.startIndex ?? 0;
+
+    // Add CollectionPage schema with the listed items
+    schemas.push({
+      '@context': 'https://schema.org',
+      '@type': 'CollectionPage',
+      inLanguage: this.config.language,
+      name: collection.name,
+      description: collection.description,
+      url: collection.canonicalUrl,
+      mainEntity: {
+        '@type': 'ItemList',
+        numberOfItems: collection.items.length,
+        itemListElement: collection.items.map((item, index) => ({
+          '@type': 'ListItem',
+          position: startIndex + index + 1,
+          name: item.name,
+          url: item.url.startsWith('http') ? item.url : `${this.config.siteUrl}${item.url}`,
+        })),
+      },
+    });
+
+    // Add BreadcrumbList schema
+    const breadcrumbSchema = this.schemaGenerator.generateBreadcrumbListSchema(
+      collection.breadcrumbs
+    );
+    schemas.push(breadcrumbSchema as unknown as Record<string, unknown>);
+
+    // Add Organization schema
+    const organizationSchema = this.schemaGenerator.generateOrganizationSchema();
+    schemas.push(organizationSchema as unknown as Record<string, unknown>);
+
+    return schemas;
+  }
+
+  /**
+   * Generate structured data for author profile pages
+   * Returns ProfilePage schema with the author's Person entity and posts
+   */
+  generateAuthorStructuredData(
+    author: Author,
+    canonicalUrl: string,
+    posts: BlogPost[] = []
+  ): Record<string, unknown>[] {
+    const schemas: Record<string, unknown>[] = [];
+
+    // Add ProfilePage schema
+    const profilePageSchema = this.schemaGenerator.generateProfilePageSchema(
+      author,
+      canonicalUrl,
+      posts
+    );
+    schemas.push(profilePageSchema as unknown as Record<string, unknown>);
+
+    // Add BreadcrumbList schema
+    const breadcrumbs = [
+      { name: 'Home', url: '/' },
+      { name: 'Blog', url: '/blog' },
+      { name: author.name, url: `/author/${author.slug}` },
+    ];
+    const breadcrumbSchema = this.schemaGenerator.generateBreadcrumbListSchema(breadcrumbs);
+    schemas.push(breadcrumbSchema as unknown as Record<string, unknown>);
+
+    // Add Organization schema
+    const organizationSchema = this.schemaGenerator.generateOrganizationSchema();
+    schemas.push(organizationSchema as unknown as Record<string, unknown>);
+
+    return schemas;
+  }
+
   /**
    * Generate structured data for FAQ content type
    * Returns FAQPage schema with question organization
@@ -193,11 +290,19 @@ export class ContentTypeStructuredDataGenerator {
    * Generate structured data for search pages
    * Returns SearchResultsPage schema (no indexing)
    */
-  generateSearchStructuredData(query?: string, resultCount?: number): Record<string, unknown>[] {
+  generateSearchStructuredData(
+    query?: string,
+    resultCount?: number,
+    canonicalUrl?: string
+  ): Record<string, unknown>[] {
     const schemas: Record<string, unknown>[] = [];
 
     // Add SearchResultsPage schema
-    const searchResultsSchema = this.generateSearchResultsPageSchema(query, resultCount);
+    const searchResultsSchema = this.generateSearchResultsPageSchema(
+      query,
+      resultCount,
+      canonicalUrl
+    );
     schemas.push(searchResultsSchema);
 
     // Add Organization schema for context
@@ -272,6 +377,7 @@ export class ContentTypeStructuredDataGenerator {
     const schema: Record<string, unknown> = {
       '@context': 'https://schema.org',
       '@type': 'CollectionPage',
+      inLanguage: this.config.language,
       name: category.name,
       description: category.description,
       url: canonicalUrl,
@@ -310,7 +416,8 @@ export class ContentTypeStructuredDataGenerator {
    */
   private generateSearchResultsPageSchema(
     query?: string,
-    resultCount?: number
+    resultCount?: number,
+    canonicalUrl?: string
   ): Record<string, unknown> {
     const schema: Record<string, unknown> = {
       '@context': 'https://schema.org',
@@ -319,7 +426,10 @@ export class ContentTypeStructuredDataGenerator {
       description: query
         ? `Search results for "${query}" on ${this.config.siteName}`
         : `Search ${this.config.siteName} for articles and guides`,
-      url: `${this.config.siteUrl}/search${query ? `?q=${encodeURIComponent(query)}` : ''}`,
+      // Filtered and paginated pages pass their own URL
+      url:
+        canonicalUrl ??
+        `${this.config.siteUrl}/search${query ? `?q=${encodeURIComponent(query)}` : ''}`,
     };
 
     // Add search query and result count if available
@@ -346,6 +456,7 @@ export class ContentTypeStructuredDataGenerator {
     return {
       '@context': 'https://schema.org',
       '@type': 'WebPage',
+      inLanguage: this.config.language,
       name: title || this.config.siteName,
       description: description || `Content from ${this.config.siteName}`,
       url: canonicalUrl,
@@ -360,11 +471,14 @@ export class ContentTypeStructuredDataGenerator {
 
 /**
  * Factory function to create ContentTypeStructuredDataGenerator with site configuration
- * Uses environment variables with fallbacks for development
+ * Uses environment variables with fallbacks for development; `language` defaults to the default locale
  */
-export function createContentTypeStructuredDataGenerator(): ContentTypeStructuredDataGenerator {
+export function createContentTypeStructuredDataGenerator(
+  language = getLocaleConfig().defaultLocale.code
+): ContentTypeStructuredDataGenerator {
   const config: StructuredDataConfig = {
     siteUrl: process.env.SITE_URL || 'http://localhost:4321',
+    language,
     siteName: 'Technical SEO CWV Astro Lab',
     organizationName: 'Technical SEO Lab',
     logoUrl: process.env.SITE_URL
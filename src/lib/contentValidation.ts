@@ -0,0 +1,353 @@
+// Runtime validation for Contentful entries
+// Checks raw entries against per-content-type field schemas and collects broken entries into a health report
+
+import type { ContentKeyspace } from './contentMemo.js';
+import type { ContentFields } from './contentModel.js';
+import {
+  type ContentFetcher,
+  type ContentfulEntry,
+  type Guide,
+  isRichTextDocument,
+} from './contentful.js';
+
+// Content types with a schema; assets are only validated where entries link to them
+export type ValidatedContentType = keyof ContentFields;
+
+type FieldRule = { required?: boolean } & (
+  | { type: 'string' }
+  | { type: 'date' }
+  // Markdown string or Rich Text document
+  | { type: 'body' }
+  | { type: 'number'; integer?: boolean; min?: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'strings' }
+  | { type: 'stringMap' }
+  | { type: 'file' }
+  | { type: 'link'; to: ValidatedContentType }
+  // List of links; unpublished targets are left out rather than reported
+  | { type: 'links'; to: ValidatedContentType }
+);
+
+type FieldSchema = Record<string, FieldRule>;
+
+const GUIDE_DIFFICULTIES: readonly Guide['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+
+// Field schemas mirroring the Contentful content model; fields not listed are ignored
+export const CONTENT_SCHEMAS: Record<ValidatedContentType, FieldSchema> = {
+  asset: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    file: { type: 'file', required: true },
+  },
+  author: {
+    name: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    bio: { type: 'string' },
+    avatar: { type: 'link', to: 'asset' },
+    socialLinks: { type: 'stringMap' },
+  },
+  category: {
+    name: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    description: { type: 'string' },
+    featuredImage: { type: 'link', to: 'asset' },
+    color: { type: 'string' },
+  },
+  blogPost: {
+    title: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    excerpt: { type: 'string' },
+    content: { type: 'body', required: true },
+    featuredImage: { type: 'link', to: 'asset' },
+    author: { type: 'link', to: 'author', required: true },
+    category: { type: 'link', to: 'category', required: true },
+    tags: { type: 'strings' },
+    publishedAt: { type: 'date', required: true },
+    seoTitle: { type: 'string' },
+    seoDescription: { type: 'string' },
+    seoImage: { type: 'link', to: 'asset' },
+  },
+  guide: {
+    title: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    description: { type: 'string' },
+    content: { type: 'body', required: true },
+    difficulty: { type: 'enum', values: GUIDE_DIFFICULTIES, required: true },
+    estimatedTime: { type: 'number', integer: true, min: 1, required: true },
+    steps: { type: 'links', to: 'guideStep' },
+    featuredImage: { type: 'link', to: 'asset' },
+    category: { type: 'link', to: 'category', required: true },
+    tools: { type: 'strings' },
+    publishedAt: { type: 'date', required: true },
+  },
+  guideStep: {
+    title: { type: 'string', required: true },
+    content: { type: 'body', required: true },
+    image: { type: 'link', to: 'asset' },
+  },
+  faqEntry: {
+    question: { type: 'string', required: true },
+    answer: { type: 'string', required: true },
+    category: { type: 'string' },
+    order: { type: 'number', integer: true, required: true },
+  },
+};
+
+// A single problem with an entry; `path` is relative to the entry's fields, e.g. `author.name`
+export interface ContentValidationIssue {
+  path: string;
+  reason: string;
+}
+
+// Thrown by the transforms for entries that do not match their schema
+export class ContentValidationError extends Error {
+  constructor(
+    readonly contentType: ValidatedContentType,
+    readonly entryId: string,
+    readonly issues: ContentValidationIssue[]
+  ) {
+    const details = issues.map((issue) => `${issue.path} ${issue.reason}`).join('; ');
+    super(`Invalid ${contentType} entry ${entryId}: ${details}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Links the API could not resolve keep only their sys, e.g. for unpublished or deleted targets
+function isUnresolvedLink(value: unknown): boolean {
+  return isRecord(value) && isRecord(value.sys) && value.sys.type === 'Link';
+}
+
+function describeTarget(contentType: ValidatedContentType): string {
+  return contentType === 'asset' ? 'a published asset' : `a published ${contentType} entry`;
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string): ContentValidationIssue[] {
+  if (value === undefined || value === null || value === '') {
+    return rule.required ? [{ path, reason: 'is required' }] : [];
+  }
+
+  const issue = (reason: string) => [{ path, reason }];
+
+  switch (rule.type) {
+    case 'string':
+      return typeof value === 'string' ? [] : issue('must be a string');
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? []
+        : issue('must be an ISO 8601 date');
+    case 'body':
+      return typeof value === 'string' || isRichTextDocument(value)
+        ? []
+        : issue('must be Markdown or a Rich Text document');
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue('must be a number');
+      if (rule.integer && !Number.isInteger(value)) return issue('must be a whole number');
+      if (rule.min !== undefined && value < rule.min) return issue(`must be at least ${rule.min}`);
+      return [];
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value)
+        ? []
+        : issue(`must be one of ${rule.values.join(', ')}`);
+    case 'strings':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? []
+        : issue('must be a list of strings');
+    case 'stringMap':
+      return isRecord(value) && Object.values(value).every((item) => typeof item === 'string')
+        ? []
+        : issue('must map names to strings');
+    case 'file':
+      return isRecord(value) && typeof value.url === 'string' && value.url !== ''
+        ? []
+        : issue('must be an uploaded file with a URL');
+    case 'link':
+      return checkLink(value, rule.to, Boolean(rule.required), path);
+    case 'links':
+      if (!Array.isArray(value)) return issue('must be a list of links');
+      return value.flatMap((item, index) => checkLink(item, rule.to, false, `${path}[${index}]`));
+  }
+}
+
+// Linked entries are validated in place so a post reports `author.name` rather than just `author`
+function checkLink(
+  value: unknown,
+  contentType: ValidatedContentType,
+  required: boolean,
+  path: string
+): ContentValidationIssue[] {
+  if (isUnresolvedLink(value)) {
+    // An optional image or list item that is not published yet is simply left out
+    return required ? [{ path, reason: `must link to ${describeTarget(contentType)}` }] : [];
+  }
+  if (!isRecord(value) || !isRecord(value.sys) || !isRecord(value.fields)) {
+    return [{ path, reason: `must link to ${describeTarget(contentType)}` }];
+  }
+
+  const linkedType = (value.sys.contentType as { sys?: { id?: unknown } } | undefined)?.sys?.id;
+  if (contentType !== 'asset' && linkedType !== undefined && linkedType !== contentType) {
+    return [{ path, reason: `must link to a ${contentType} entry, not ${String(linkedType)}` }];
+  }
+
+  return checkFields(value.fields, CONTENT_SCHEMAS[contentType], `${path}.`);
+}
+
+function checkFields(fields: UnknownRecord, schema: FieldSchema, prefix = '') {
+  return Object.entries(schema).flatMap(([name, rule]) =>
+    checkField(fields[name], rule, `${prefix}${name}`)
+  );
+}
+
+/**
+ * Validate a raw Contentful entry against its content type's schema, returning every issue found
+ */
+export function validateContentEntry(
+  contentType: ValidatedContentType,
+  entry: unknown
+): ContentValidationIssue[] {
+  if (!isRecord(entry) || !isRecord(entry.fields)) {
+    return [{ path: 'fields', reason: 'is missing' }];
+  }
+  return checkFields(entry.fields, CONTENT_SCHEMAS[contentType]);
+}
+
+function getEntryId(entry: unknown): string {
+  const id = isRecord(entry) && isRecord(entry.sys) ? entry.sys.id : undefined;
+  return typeof id === 'string' ? id : 'unknown';
+}
+
+/**
+ * Throw a ContentValidationError unless the entry matches its content type's schema
+ */
+export function assertValidContentEntry<T extends ValidatedContentType>(
+  contentType: T,
+  entry: unknown
+): asserts entry is ContentfulEntry & { fields: ContentFields[T] } {
+  const issues = validateContentEntry(contentType, entry);
+  if (issues.length > 0) {
+    throw new ContentValidationError(contentType, getEntryId(entry), issues);
+  }
+}
+
+// What happens to invalid entries: left out of results with a warning, or thrown
+export type ContentValidationPolicy = 'skip' | 'fail';
+
+// Read CONTENT_VALIDATION_POLICY; anything but "fail" skips invalid entries
+export function getContentValidationPolicy(
+  env: Record<string, string | undefined> = process.env
+): ContentValidationPolicy {
+  return env.CONTENT_VALIDATION_POLICY === 'fail' ? 'fail' : 'skip';
+}
+
+// An entry that failed validation the last time it was read
+export interface InvalidContentEntry {
+  entryId: string;
+  contentType: ValidatedContentType;
+  source: ContentKeyspace;
+  issues: ContentValidationIssue[];
+}
+
+export interface ContentHealthReport {
+  generatedAt: string;
+  policy: ContentValidationPolicy;
+  healthy: boolean;
+  // Distinct entries validated since the validator was created
+  checked: number;
+  invalid: InvalidContentEntry[];
+}
+
+// Applies the validation policy to transforms and remembers which entries are currently broken
+export class ContentValidator {
+  private readonly checked = new Set<string>();
+  private readonly invalid = new Map<string, InvalidContentEntry>();
+
+  constructor(readonly policy: ContentValidationPolicy = getContentValidationPolicy()) {}
+
+  /**
+   * Transform an entry, returning null for invalid entries under the skip policy
+   */
+  transform<T>(
+    entry: ContentfulEntry,
+    transform: (entry: ContentfulEntry) => T,
+    source: ContentKeyspace = 'delivery'
+  ): T | null {
+    const key = `${source}:${getEntryId(entry)}`;
+    this.checked.add(key);
+
+    try {
+      const result = transform(entry);
+      // A fixed entry drops out of the report the next time it is read
+      this.invalid.delete(key);
+      return result;
+    } catch (error) {
+      if (!(error instanceof ContentValidationError)) throw error;
+
+      const { contentType, entryId, issues } = error;
+      this.invalid.set(key, { entryId, contentType, source, issues });
+      if (this.policy === 'fail') throw error;
+
+      console.warn(`Skipping ${error.message}`);
+      return null;
+    }
+  }
+
+  // Transform a list of entries, leaving out the invalid ones under the skip policy
+  transformAll<T>(
+    entries: ContentfulEntry[],
+    transform: (entry: ContentfulEntry) => T,
+    source: ContentKeyspace = 'delivery'
+  ): T[] {
+    return entries.flatMap((entry) => {
+      const result = this.transform(entry, transform, source);
+      return result === null ? [] : [result];
+    });
+  }
+
+  report(now = new Date()): ContentHealthReport {
+    const invalid = [...this.invalid.values()].sort(
+      (a, b) =>
+        a.contentType.localeCompare(b.contentType) ||
+        a.entryId.localeCompare(b.entryId) ||
+        a.source.localeCompare(b.source)
+    );
+
+    return {
+      generatedAt: now.toISOString(),
+      policy: this.policy,
+      healthy: invalid.length === 0,
+      checked: this.checked.size,
+      invalid,
+    };
+  }
+}
+
+/**
+ * Read every collection through a service backed by `validator` and report the entries it rejected
+ */
+export async function scanContentHealth(
+  service: ContentFetcher,
+  validator: ContentValidator,
+  preview = false
+): Promise<ContentHealthReport> {
+  await Promise.all([
+    service.getAllBlogPosts(preview),
+    service.getAllGuides(preview),
+    service.getCategories(preview),
+    service.getAuthors(preview),
+    service.getFaqEntries(preview),
+  ]);
+  return validator.report();
+}
+
+// Services created for pages share one validator, so warnings and the report cover the whole process
+let sharedValidator: ContentValidator | null = null;
+
+export function getContentValidator(): ContentValidator {
+  sharedValidator ??= new ContentValidator();
+  return sharedValidator;
+}
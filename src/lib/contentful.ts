@@ -1,9 +1,21 @@
 import { type ContentfulClientApi, type Entry, createClient } from 'contentful';
+import type { ContentKeyspace } from './contentMemo.js';
+import type { AssetEntry } from './contentModel.js';
+import {
+  type ContentValidator,
+  assertValidContentEntry,
+  getContentValidator,
+} from './contentValidation.js';
+import {
+  ContentfulRequestPolicy,
+  getRequestPolicyOptions,
+  wrapContentError,
+} from './contentfulRequest.js';
 
 // Use any for Contentful entries due to dynamic nature of CMS content
 // This is acceptable here as we're transforming to strongly typed interfaces
 // biome-ignore lint/suspicious/noExplicitAny: Contentful entries have dynamic structure
-type ContentfulEntry = Entry<any>;
+export type ContentfulEntry = Entry<any>;
 
 // Helper function to safely convert Contentful fields to strings
 function safeString(value: unknown, fallback = ''): string {
@@ -27,6 +39,12 @@ function safeOptionalString(value: unknown): string | undefined {
   return undefined;
 }
 
+// Helper function to keep Rich Text documents and Markdown strings as content bodies
+function safeContentBody(value: unknown): ContentBody {
+  if (isRichTextDocument(value)) return value;
+  return safeString(value);
+}
+
 // Contentful asset file type
 interface ContentfulAssetFile {
   url: string;
@@ -42,7 +60,7 @@ interface ContentfulAssetFile {
 }
 
 // Environment configuration interface
-interface ContentfulConfig {
+export interface ContentfulConfig {
   spaceId: string;
   environment: string;
   deliveryToken: string;
@@ -78,6 +96,41 @@ export interface ContentfulAsset {
   };
 }
 
+// Contentful Rich Text node data (links carry `uri`, embeds carry a resolved `target`)
+export type RichTextNodeData = Record<string, unknown>;
+
+// Contentful Rich Text mark applied to a text node
+export interface RichTextMark {
+  type: string;
+}
+
+// Contentful Rich Text leaf node
+export interface RichTextText {
+  nodeType: 'text';
+  value: string;
+  marks: RichTextMark[];
+  data: RichTextNodeData;
+}
+
+// Contentful Rich Text block or inline node
+export interface RichTextElement {
+  nodeType: string;
+  data: RichTextNodeData;
+  content: RichTextNode[];
+}
+
+export type RichTextNode = RichTextText | RichTextElement;
+
+// Contentful Rich Text document root
+export interface RichTextDocument {
+  nodeType: 'document';
+  data: RichTextNodeData;
+  content: RichTextNode[];
+}
+
+// Long-form body: Rich Text from Contentful or Markdown from mocks and legacy fields
+export type ContentBody = string | RichTextDocument;
+
 // Author content type interface
 export interface Author {
   sys: ContentfulSys;
@@ -104,7 +157,7 @@ export interface BlogPost {
   title: string;
   slug: string;
   excerpt: string;
-  content: string;
+  content: ContentBody;
   featuredImage?: ContentfulAsset;
   author: Author;
   category: Category;
@@ -120,7 +173,7 @@ export interface BlogPost {
 // Guide step interface
 export interface GuideStep {
   title: string;
-  content: string;
+  content: ContentBody;
   image?: ContentfulAsset;
 }
 
@@ -130,7 +183,7 @@ export interface Guide {
   title: string;
   slug: string;
   description: string;
-  content: string;
+  content: ContentBody;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   estimatedTime: number;
   steps: GuideStep[];
@@ -149,50 +202,347 @@ export interface FaqEntry {
   order: number;
 }
 
+// Type guard for Rich Text documents returned by the Contentful SDK
+export function isRichTextDocument(value: unknown): value is RichTextDocument {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { nodeType?: unknown }).nodeType === 'document' &&
+    Array.isArray((value as { content?: unknown }).content)
+  );
+}
+
+// Contentful rejects collection queries with a limit above this
+export const MAX_PAGE_SIZE = 1000;
+
+// Page size used when walking complete collections; kept well below the cap
+// because linked entries count towards Contentful's response size limit
+export const DEFAULT_PAGE_SIZE = 100;
+
+// Offset-based page request for collection queries
+export interface PageOptions {
+  skip?: number;
+  limit?: number;
+}
+
+// A single page of a collection together with the size of the whole collection
+export interface ContentPage<T> {
+  items: T[];
+  total: number;
+  skip: number;
+  limit: number;
+  // Entries on this page left out because they failed validation
+  skipped?: number;
+}
+
+// Validate page options and clamp the limit to what the API accepts
+export function resolvePageOptions(options: PageOptions = {}): Required<PageOptions> {
+  const skip = options.skip ?? 0;
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  if (!Number.isInteger(skip) || skip < 0) {
+    throw new Error(`Invalid page skip: ${skip}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Invalid page limit: ${limit}`);
+  }
+
+  return { skip, limit: Math.min(limit, MAX_PAGE_SIZE) };
+}
+
+// Walk a paged collection from the start until the reported total is reached
+export async function* iteratePages<T>(
+  fetchPage: (options: Required<PageOptions>) => Promise<ContentPage<T>>,
+  pageSize = DEFAULT_PAGE_SIZE
+): AsyncGenerator<ContentPage<T>> {
+  let skip = 0;
+  let total = Number.POSITIVE_INFINITY;
+
+  while (skip < total) {
+    const page = await fetchPage(resolvePageOptions({ skip, limit: pageSize }));
+    yield page;
+
+    // Skipped invalid entries still occupy their place in the collection
+    const advanced = page.items.length + (page.skipped ?? 0);
+    // An empty page means entries were unpublished while walking; stop instead of looping
+    if (advanced === 0) return;
+    skip += advanced;
+    total = page.total;
+  }
+}
+
+// Flatten every page of a paged collection into a single array
+export async function collectPages<T>(pages: AsyncIterable<ContentPage<T>>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of pages) {
+    items.push(...page.items);
+  }
+  return items;
+}
+
 // Content fetcher interface defining the contract
 export interface ContentFetcher {
   getBlogPost(slug: string, preview?: boolean): Promise<BlogPost | null>;
   getBlogPosts(limit?: number, preview?: boolean): Promise<BlogPost[]>;
+  getBlogPostsPage(options?: PageOptions, preview?: boolean): Promise<ContentPage<BlogPost>>;
+  iterateBlogPosts(pageSize?: number, preview?: boolean): AsyncIterable<ContentPage<BlogPost>>;
+  getAllBlogPosts(preview?: boolean): Promise<BlogPost[]>;
+  getBlogPostsByCategory(categorySlug: string, preview?: boolean): Promise<BlogPost[]>;
+  getBlogPostsByTag(tag: string, preview?: boolean): Promise<BlogPost[]>;
+  getBlogPostsByAuthor(authorSlug: string, preview?: boolean): Promise<BlogPost[]>;
   getGuide(slug: string, preview?: boolean): Promise<Guide | null>;
   getGuides(limit?: number, preview?: boolean): Promise<Guide[]>;
+  getGuidesPage(options?: PageOptions, preview?: boolean): Promise<ContentPage<Guide>>;
+  iterateGuides(pageSize?: number, preview?: boolean): AsyncIterable<ContentPage<Guide>>;
+  getAllGuides(preview?: boolean): Promise<Guide[]>;
+  getGuidesByCategory(categorySlug: string, preview?: boolean): Promise<Guide[]>;
   getCategory(slug: string, preview?: boolean): Promise<Category | null>;
   getCategories(preview?: boolean): Promise<Category[]>;
+  getAuthor(slug: string, preview?: boolean): Promise<Author | null>;
+  getAuthors(preview?: boolean): Promise<Author[]>;
   getFaqEntries(preview?: boolean): Promise<FaqEntry[]>;
+  // The same reads in another Contentful locale, e.g. `de-DE`
+  withLocale(locale: string): ContentFetcher;
+}
+
+// Extra field conditions merged into a collection query
+type EntryFilters = Record<string, string>;
+
+// Contentful only searches a linked entry's fields once the link's content type is pinned
+function linkedSlugFilter(field: string, contentType: string, slug: string): EntryFilters {
+  return {
+    [`fields.${field}.sys.contentType.sys.id`]: contentType,
+    [`fields.${field}.fields.slug`]: slug,
+  };
+}
+
+// Map a resolved Contentful asset link onto ContentfulAsset; unresolved links yield undefined
+export function transformAsset(
+  asset: ContentfulEntry | AssetEntry | undefined
+): ContentfulAsset | undefined {
+  if (!asset || !asset.fields) return undefined;
+
+  return {
+    sys: {
+      id: asset.sys.id,
+      createdAt: asset.sys.createdAt,
+      updatedAt: asset.sys.updatedAt,
+    },
+    fields: {
+      title: safeString(asset.fields.title),
+      description: safeOptionalString(asset.fields.description),
+      file: asset.fields.file as unknown as ContentfulAssetFile,
+    },
+  };
+}
+
+// Map an author entry, resolving its avatar asset
+export function transformAuthor(entry: unknown): Author {
+  assertValidContentEntry('author', entry);
+
+  return {
+    sys: {
+      id: entry.sys.id,
+      createdAt: entry.sys.createdAt,
+      updatedAt: entry.sys.updatedAt,
+    },
+    name: safeString(entry.fields.name),
+    slug: safeString(entry.fields.slug),
+    bio: safeOptionalString(entry.fields.bio),
+    avatar: entry.fields.avatar ? transformAsset(entry.fields.avatar) : undefined,
+    socialLinks: entry.fields.socialLinks as Record<string, string> | undefined,
+  };
+}
+
+// Map a category entry, resolving its featured image
+export function transformCategory(entry: unknown): Category {
+  assertValidContentEntry('category', entry);
+
+  return {
+    sys: {
+      id: entry.sys.id,
+      createdAt: entry.sys.createdAt,
+      updatedAt: entry.sys.updatedAt,
+    },
+    name: safeString(entry.fields.name),
+    slug: safeString(entry.fields.slug),
+    description: safeString(entry.fields.description),
+    featuredImage: entry.fields.featuredImage
+      ? transformAsset(entry.fields.featuredImage)
+      : undefined,
+    color: safeString(entry.fields.color),
+  };
+}
+
+// Map a blog post entry whose author and category links have been resolved
+export function transformBlogPost(entry: unknown): BlogPost {
+  assertValidContentEntry('blogPost', entry);
+
+  return {
+    sys: {
+      id: entry.sys.id,
+      createdAt: entry.sys.createdAt,
+      updatedAt: entry.sys.updatedAt,
+    },
+    title: safeString(entry.fields.title),
+    slug: safeString(entry.fields.slug),
+    excerpt: safeString(entry.fields.excerpt),
+    content: safeContentBody(entry.fields.content),
+    featuredImage: entry.fields.featuredImage
+      ? transformAsset(entry.fields.featuredImage)
+      : undefined,
+    author: transformAuthor(entry.fields.author),
+    category: transformCategory(entry.fields.category),
+    tags: Array.isArray(entry.fields.tags) ? entry.fields.tags.map(String) : [],
+    publishedAt: safeString(entry.fields.publishedAt),
+    seo:
+      entry.fields.seoTitle || entry.fields.seoDescription || entry.fields.seoImage
+        ? {
+            title: safeOptionalString(entry.fields.seoTitle),
+            description: safeOptionalString(entry.fields.seoDescription),
+            ogImage: entry.fields.seoImage ? transformAsset(entry.fields.seoImage) : undefined,
+          }
+        : undefined,
+  };
+}
+
+// Map a guide step entry linked from a guide, resolving its image
+export function transformGuideStep(entry: unknown): GuideStep {
+  assertValidContentEntry('guideStep', entry);
+
+  return {
+    title: safeString(entry.fields.title),
+    content: safeContentBody(entry.fields.content),
+    image: transformAsset(entry.fields.image),
+  };
+}
+
+// Map a guide entry whose category and step links have been resolved
+export function transformGuide(entry: unknown): Guide {
+  assertValidContentEntry('guide', entry);
+
+  return {
+    sys: {
+      id: entry.sys.id,
+      createdAt: entry.sys.createdAt,
+      updatedAt: entry.sys.updatedAt,
+    },
+    title: safeString(entry.fields.title),
+    slug: safeString(entry.fields.slug),
+    description: safeString(entry.fields.description),
+    content: safeContentBody(entry.fields.content),
+    difficulty: entry.fields.difficulty,
+    estimatedTime: entry.fields.estimatedTime,
+    // Steps that are not published yet come back as unresolved links
+    steps: (entry.fields.steps ?? []).filter((step) => step.fields).map(transformGuideStep),
+    featuredImage: entry.fields.featuredImage
+      ? transformAsset(entry.fields.featuredImage)
+      : undefined,
+    category: transformCategory(entry.fields.category),
+    tools: Array.isArray(entry.fields.tools) ? entry.fields.tools.map(String) : [],
+    publishedAt: safeString(entry.fields.publishedAt),
+  };
+}
+
+// Map an FAQ entry
+export function transformFaqEntry(entry: unknown): FaqEntry {
+  assertValidContentEntry('faqEntry', entry);
+
+  return {
+    sys: {
+      id: entry.sys.id,
+      createdAt: entry.sys.createdAt,
+      updatedAt: entry.sys.updatedAt,
+    },
+    question: safeString(entry.fields.question),
+    answer: safeString(entry.fields.answer),
+    category: safeString(entry.fields.category),
+    order: entry.fields.order,
+  };
+}
+
+// Query accepted by getEntries for any content type
+type EntriesQuery = Parameters<ContentfulClientApi<undefined>['getEntries']>[0] & {
+  content_type: string;
+};
+
+// Request policies for the Delivery and Preview APIs, which are rate limited separately
+export interface ContentfulRequestPolicies {
+  delivery: ContentfulRequestPolicy;
+  preview: ContentfulRequestPolicy;
 }
 
 // Client factory functions for dependency injection
-export function createDeliveryClient(config: ContentfulConfig): ContentfulClientApi<undefined> {
+export function createDeliveryClient(
+  config: ContentfulConfig,
+  policy?: ContentfulRequestPolicy
+): ContentfulClientApi<undefined> {
   return createClient({
     space: config.spaceId,
     environment: config.environment,
     accessToken: config.deliveryToken,
     host: config.host,
+    ...policy?.clientOptions,
   });
 }
 
-export function createPreviewClient(config: ContentfulConfig): ContentfulClientApi<undefined> {
+export function createPreviewClient(
+  config: ContentfulConfig,
+  policy?: ContentfulRequestPolicy
+): ContentfulClientApi<undefined> {
   return createClient({
     space: config.spaceId,
     environment: config.environment,
     accessToken: config.previewToken,
     host: 'preview.contentful.com',
+    ...policy?.clientOptions,
   });
 }
 
+// Memo and validation report key for the API a read goes to
+function keyspace(preview: boolean): ContentKeyspace {
+  return preview ? 'preview' : 'delivery';
+}
+
 // Main Contentful service implementation
 export class ContentfulService implements ContentFetcher {
   constructor(
     private readonly deliveryClient: ContentfulClientApi<undefined>,
-    private readonly previewClient: ContentfulClientApi<undefined>
+    private readonly previewClient: ContentfulClientApi<undefined>,
+    private readonly policies: ContentfulRequestPolicies = {
+      delivery: new ContentfulRequestPolicy(),
+      preview: new ContentfulRequestPolicy(),
+    },
+    private readonly validator: ContentValidator = getContentValidator(),
+    // Omitted for the space's default locale
+    private readonly locale?: string
   ) {}
 
+  withLocale(locale: string): ContentfulService {
+    return new ContentfulService(
+      this.deliveryClient,
+      this.previewClient,
+      this.policies,
+      this.validator,
+      locale
+    );
+  }
+
   private getClient(preview: boolean): ContentfulClientApi<undefined> {
     return preview ? this.previewClient : this.deliveryClient;
   }
 
+  // Every API call runs under the timeout and retry policy of the API it goes to
+  private getEntries(preview: boolean, query: EntriesQuery) {
+    const policy = preview ? this.policies.preview : this.policies.delivery;
+    const localizedQuery = this.locale ? { ...query, locale: this.locale } : query;
+    return policy.run(`Contentful getEntries(${query.content_type})`, () =>
+      this.getClient(preview).getEntries(localizedQuery)
+    );
+  }
+
   private async fetchBlogPost(slug: string, preview: boolean): Promise<BlogPost | null> {
-    const client = this.getClient(preview);
-    const entries = await client.getEntries({
+    const entries = await this.getEntries(preview, {
       content_type: 'blogPost',
       'fields.slug': slug,
       limit: 1,
@@ -203,148 +553,89 @@ export class ContentfulService implements ContentFetcher {
       return null;
     }
 
-    return this.transformBlogPost(entries.items[0]);
+    return this.validator.transform(entries.items[0], transformBlogPost, keyspace(preview));
   }
 
-  private async fetchBlogPosts(limit: number, preview: boolean): Promise<BlogPost[]> {
-    const client = this.getClient(preview);
-    const entries = await client.getEntries({
+  private async fetchBlogPostsPage(
+    options: PageOptions,
+    preview: boolean,
+    filters: EntryFilters = {}
+  ): Promise<ContentPage<BlogPost>> {
+    const { skip, limit } = resolvePageOptions(options);
+    const entries = await this.getEntries(preview, {
+      ...filters,
       content_type: 'blogPost',
+      skip,
       limit,
-      order: ['-fields.publishedAt'],
+      // sys.id breaks publish date ties so consecutive pages never overlap
+      order: ['-fields.publishedAt', 'sys.id'],
       include: 2,
     });
 
-    return entries.items.map((entry: ContentfulEntry) => this.transformBlogPost(entry));
-  }
-
-  private transformAsset(asset: ContentfulEntry | undefined): ContentfulAsset | undefined {
-    if (!asset || !asset.fields) return undefined;
-
+    const items = this.validator.transformAll(entries.items, transformBlogPost, keyspace(preview));
     return {
-      sys: {
-        id: asset.sys.id,
-        createdAt: asset.sys.createdAt,
-        updatedAt: asset.sys.updatedAt,
-      },
-      fields: {
-        title: safeString(asset.fields.title),
-        description: safeOptionalString(asset.fields.description),
-        file: asset.fields.file as unknown as ContentfulAssetFile,
-      },
+      items,
+      total: entries.total,
+      skip: entries.skip,
+      limit: entries.limit,
+      skipped: entries.items.length - items.length,
     };
   }
 
-  private transformAuthor(entry: ContentfulEntry): Author {
-    if (!entry || !entry.fields) {
-      throw new Error('Invalid author entry');
-    }
-
-    return {
-      sys: {
-        id: entry.sys.id,
-        createdAt: entry.sys.createdAt,
-        updatedAt: entry.sys.updatedAt,
-      },
-      name: safeString(entry.fields.name),
-      slug: safeString(entry.fields.slug),
-      bio: safeOptionalString(entry.fields.bio),
-      avatar: entry.fields.avatar
-        ? this.transformAsset(entry.fields.avatar as ContentfulEntry)
-        : undefined,
-      socialLinks: entry.fields.socialLinks as Record<string, string> | undefined,
-    };
-  }
-
-  private transformCategory(entry: ContentfulEntry): Category {
-    if (!entry || !entry.fields) {
-      throw new Error('Invalid category entry');
-    }
+  private async fetchGuidesPage(
+    options: PageOptions,
+    preview: boolean,
+    filters: EntryFilters = {}
+  ): Promise<ContentPage<Guide>> {
+    const { skip, limit } = resolvePageOptions(options);
+    const entries = await this.getEntries(preview, {
+      ...filters,
+      content_type: 'guide',
+      skip,
+      limit,
+      order: ['-fields.publishedAt', 'sys.id'],
+      include: 2,
+    });
 
+    const items = this.validator.transformAll(entries.items, transformGuide, keyspace(preview));
     return {
-      sys: {
-        id: entry.sys.id,
-        createdAt: entry.sys.createdAt,
-        updatedAt: entry.sys.updatedAt,
-      },
-      name: safeString(entry.fields.name),
-      slug: safeString(entry.fields.slug),
-      description: safeString(entry.fields.description),
-      featuredImage: entry.fields.featuredImage
-        ? this.transformAsset(entry.fields.featuredImage as ContentfulEntry)
-        : undefined,
-      color: safeString(entry.fields.color),
+      items,
+      total: entries.total,
+      skip: entries.skip,
+      limit: entries.limit,
+      skipped: entries.items.length - items.length,
     };
   }
 
-  private transformBlogPost(entry: ContentfulEntry): BlogPost {
-    return {
-      sys: {
-        id: entry.sys.id,
-        createdAt: entry.sys.createdAt,
-        updatedAt: entry.sys.updatedAt,
-      },
-      title: safeString(entry.fields.title),
-      slug: safeString(entry.fields.slug),
-      excerpt: safeString(entry.fields.excerpt),
-      content: safeString(entry.fields.content),
-      featuredImage: entry.fields.featuredImage
-        ? this.transformAsset(entry.fields.featuredImage as ContentfulEntry)
-        : undefined,
-      author: this.transformAuthor(entry.fields.author as ContentfulEntry),
-      category: this.transformCategory(entry.fields.category as ContentfulEntry),
-      tags: Array.isArray(entry.fields.tags) ? entry.fields.tags.map(String) : [],
-      publishedAt: safeString(entry.fields.publishedAt),
-      seo:
-        entry.fields.seoTitle || entry.fields.seoDescription || entry.fields.seoImage
-          ? {
-              title: safeOptionalString(entry.fields.seoTitle),
-              description: safeOptionalString(entry.fields.seoDescription),
-              ogImage: entry.fields.seoImage
-                ? this.transformAsset(entry.fields.seoImage as ContentfulEntry)
-                : undefined,
-            }
-          : undefined,
-    };
+  private fetchFilteredBlogPosts(filters: EntryFilters, preview: boolean): Promise<BlogPost[]> {
+    return collectPages(
+      iteratePages((options) => this.fetchBlogPostsPage(options, preview, filters))
+    );
   }
 
-  private transformGuide(entry: ContentfulEntry): Guide {
-    return {
-      sys: {
-        id: entry.sys.id,
-        createdAt: entry.sys.createdAt,
-        updatedAt: entry.sys.updatedAt,
-      },
-      title: safeString(entry.fields.title),
-      slug: safeString(entry.fields.slug),
-      description: safeString(entry.fields.description),
-      content: safeString(entry.fields.content),
-      difficulty: entry.fields.difficulty as 'beginner' | 'intermediate' | 'advanced',
-      estimatedTime: Number(entry.fields.estimatedTime),
-      steps: Array.isArray(entry.fields.steps)
-        ? (entry.fields.steps as unknown as GuideStep[])
-        : [],
-      featuredImage: entry.fields.featuredImage
-        ? this.transformAsset(entry.fields.featuredImage as ContentfulEntry)
-        : undefined,
-      category: this.transformCategory(entry.fields.category as ContentfulEntry),
-      tools: Array.isArray(entry.fields.tools) ? entry.fields.tools.map(String) : [],
-      publishedAt: safeString(entry.fields.publishedAt),
-    };
+  private fetchFilteredGuides(filters: EntryFilters, preview: boolean): Promise<Guide[]> {
+    return collectPages(iteratePages((options) => this.fetchGuidesPage(options, preview, filters)));
   }
 
-  private transformFaqEntry(entry: ContentfulEntry): FaqEntry {
-    return {
-      sys: {
-        id: entry.sys.id,
-        createdAt: entry.sys.createdAt,
-        updatedAt: entry.sys.updatedAt,
-      },
-      question: safeString(entry.fields.question),
-      answer: safeString(entry.fields.answer),
-      category: safeString(entry.fields.category),
-      order: Number(entry.fields.order),
-    };
+  // Fetch every entry of an unpaged content type, which the API would otherwise cap at 100
+  private async fetchAllEntries(
+    contentType: string,
+    order: `fields.${string}`,
+    preview: boolean
+  ): Promise<ContentfulEntry[]> {
+    return collectPages(
+      iteratePages(async ({ skip, limit }) => {
+        const entries = await this.getEntries(preview, {
+          content_type: contentType,
+          skip,
+          limit,
+          order: [order, 'sys.id'],
+          include: 1,
+        });
+
+        return { items: entries.items, total: entries.total, skip, limit };
+      })
+    );
   }
 
   async getBlogPost(slug: string, preview = false): Promise<BlogPost | null> {
@@ -352,23 +643,79 @@ export class ContentfulService implements ContentFetcher {
       return await this.fetchBlogPost(slug, preview);
     } catch (error) {
       console.error(`Error fetching blog post ${slug}:`, error);
-      throw new Error(`Failed to fetch blog post: ${slug}`);
+      throw wrapContentError(error, `Failed to fetch blog post: ${slug}`);
     }
   }
 
   async getBlogPosts(limit = 10, preview = false): Promise<BlogPost[]> {
     try {
-      return await this.fetchBlogPosts(limit, preview);
+      return (await this.fetchBlogPostsPage({ limit }, preview)).items;
     } catch (error) {
       console.error('Error fetching blog posts:', error);
-      throw new Error('Failed to fetch blog posts');
+      throw wrapContentError(error, 'Failed to fetch blog posts');
+    }
+  }
+
+  async getBlogPostsPage(
+    options: PageOptions = {},
+    preview = false
+  ): Promise<ContentPage<BlogPost>> {
+    try {
+      return await this.fetchBlogPostsPage(options, preview);
+    } catch (error) {
+      console.error('Error fetching blog posts page:', error);
+      throw wrapContentError(error, 'Failed to fetch blog posts page');
+    }
+  }
+
+  iterateBlogPosts(
+    pageSize = DEFAULT_PAGE_SIZE,
+    preview = false
+  ): AsyncIterable<ContentPage<BlogPost>> {
+    return iteratePages((options) => this.getBlogPostsPage(options, preview), pageSize);
+  }
+
+  async getAllBlogPosts(preview = false): Promise<BlogPost[]> {
+    return collectPages(this.iterateBlogPosts(DEFAULT_PAGE_SIZE, preview));
+  }
+
+  async getBlogPostsByCategory(categorySlug: string, preview = false): Promise<BlogPost[]> {
+    try {
+      return await this.fetchFilteredBlogPosts(
+        linkedSlugFilter('category', 'category', categorySlug),
+        preview
+      );
+    } catch (error) {
+      console.error(`Error fetching blog posts for category ${categorySlug}:`, error);
+      throw wrapContentError(error, `Failed to fetch blog posts for category: ${categorySlug}`);
+    }
+  }
+
+  async getBlogPostsByTag(tag: string, preview = false): Promise<BlogPost[]> {
+    try {
+      // Equality on an array field matches entries whose array contains the value
+      return await this.fetchFilteredBlogPosts({ 'fields.tags': tag }, preview);
+    } catch (error) {
+      console.error(`Error fetching blog posts for tag ${tag}:`, error);
+      throw wrapContentError(error, `Failed to fetch blog posts for tag: ${tag}`);
+    }
+  }
+
+  async getBlogPostsByAuthor(authorSlug: string, preview = false): Promise<BlogPost[]> {
+    try {
+      return await this.fetchFilteredBlogPosts(
+        linkedSlugFilter('author', 'author', authorSlug),
+        preview
+      );
+    } catch (error) {
+      console.error(`Error fetching blog posts for author ${authorSlug}:`, error);
+      throw wrapContentError(error, `Failed to fetch blog posts for author: ${authorSlug}`);
     }
   }
 
   async getGuide(slug: string, preview = false): Promise<Guide | null> {
     try {
-      const client = this.getClient(preview);
-      const entries = await client.getEntries({
+      const entries = await this.getEntries(preview, {
         content_type: 'guide',
         'fields.slug': slug,
         limit: 1,
@@ -379,34 +726,54 @@ export class ContentfulService implements ContentFetcher {
         return null;
       }
 
-      return this.transformGuide(entries.items[0]);
+      return this.validator.transform(entries.items[0], transformGuide, keyspace(preview));
     } catch (error) {
       console.error(`Error fetching guide ${slug}:`, error);
-      throw new Error(`Failed to fetch guide: ${slug}`);
+      throw wrapContentError(error, `Failed to fetch guide: ${slug}`);
     }
   }
 
   async getGuides(limit = 10, preview = false): Promise<Guide[]> {
     try {
-      const client = this.getClient(preview);
-      const entries = await client.getEntries({
-        content_type: 'guide',
-        limit,
-        order: ['-fields.publishedAt'],
-        include: 2,
-      });
-
-      return entries.items.map((entry: ContentfulEntry) => this.transformGuide(entry));
+      return (await this.fetchGuidesPage({ limit }, preview)).items;
     } catch (error) {
       console.error('Error fetching guides:', error);
-      throw new Error('Failed to fetch guides');
+      throw wrapContentError(error, 'Failed to fetch guides');
+    }
+  }
+
+  async getGuidesPage(options: PageOptions = {}, preview = false): Promise<ContentPage<Guide>> {
+    try {
+      return await this.fetchGuidesPage(options, preview);
+    } catch (error) {
+      console.error('Error fetching guides page:', error);
+      throw wrapContentError(error, 'Failed to fetch guides page');
+    }
+  }
+
+  iterateGuides(pageSize = DEFAULT_PAGE_SIZE, preview = false): AsyncIterable<ContentPage<Guide>> {
+    return iteratePages((options) => this.getGuidesPage(options, preview), pageSize);
+  }
+
+  async getAllGuides(preview = false): Promise<Guide[]> {
+    return collectPages(this.iterateGuides(DEFAULT_PAGE_SIZE, preview));
+  }
+
+  async getGuidesByCategory(categorySlug: string, preview = false): Promise<Guide[]> {
+    try {
+      return await this.fetchFilteredGuides(
+        linkedSlugFilter('category', 'category', categorySlug),
+        preview
+      );
+    } catch (error) {
+      console.error(`Error fetching guides for category ${categorySlug}:`, error);
+      throw wrapContentError(error, `Failed to fetch guides for category: ${categorySlug}`);
     }
   }
 
   async getCategory(slug: string, preview = false): Promise<Category | null> {
     try {
-      const client = this.getClient(preview);
-      const entries = await client.getEntries({
+      const entries = await this.getEntries(preview, {
         content_type: 'category',
         'fields.slug': slug,
         limit: 1,
@@ -417,63 +784,111 @@ export class ContentfulService implements ContentFetcher {
         return null;
       }
 
-      return this.transformCategory(entries.items[0]);
+      return this.validator.transform(entries.items[0], transformCategory, keyspace(preview));
     } catch (error) {
       console.error(`Error fetching category ${slug}:`, error);
-      throw new Error(`Failed to fetch category: ${slug}`);
+      throw wrapContentError(error, `Failed to fetch category: ${slug}`);
     }
   }
 
   async getCategories(preview = false): Promise<Category[]> {
     try {
-      const client = this.getClient(preview);
-      const entries = await client.getEntries({
-        content_type: 'category',
-        order: ['fields.name'],
-        include: 1,
-      });
+      const entries = await this.fetchAllEntries('category', 'fields.name', preview);
 
-      return entries.items.map((entry: ContentfulEntry) => this.transformCategory(entry));
+      return this.validator.transformAll(entries, transformCategory, keyspace(preview));
     } catch (error) {
       console.error('Error fetching categories:', error);
-      throw new Error('Failed to fetch categories');
+      throw wrapContentError(error, 'Failed to fetch categories');
     }
   }
 
-  async getFaqEntries(preview = false): Promise<FaqEntry[]> {
+  async getAuthor(slug: string, preview = false): Promise<Author | null> {
     try {
-      const client = this.getClient(preview);
-      const entries = await client.getEntries({
-        content_type: 'faqEntry',
-        order: ['fields.order'],
+      const entries = await this.getEntries(preview, {
+        content_type: 'author',
+        'fields.slug': slug,
+        limit: 1,
         include: 1,
       });
 
-      return entries.items.map((entry: ContentfulEntry) => this.transformFaqEntry(entry));
+      if (entries.items.length === 0) {
+        return null;
+      }
+
+      return this.validator.transform(entries.items[0], transformAuthor, keyspace(preview));
+    } catch (error) {
+      console.error(`Error fetching author ${slug}:`, error);
+      throw wrapContentError(error, `Failed to fetch author: ${slug}`);
+    }
+  }
+
+  async getAuthors(preview = false): Promise<Author[]> {
+    try {
+      const entries = await this.fetchAllEntries('author', 'fields.name', preview);
+
+      return this.validator.transformAll(entries, transformAuthor, keyspace(preview));
+    } catch (error) {
+      console.error('Error fetching authors:', error);
+      throw wrapContentError(error, 'Failed to fetch authors');
+    }
+  }
+
+  async getFaqEntries(preview = false): Promise<FaqEntry[]> {
+    try {
+      const entries = await this.fetchAllEntries('faqEntry', 'fields.order', preview);
+
+      return this.validator.transformAll(entries, transformFaqEntry, keyspace(preview));
     } catch (error) {
       console.error('Error fetching FAQ entries:', error);
-      throw new Error('Failed to fetch FAQ entries');
+      throw wrapContentError(error, 'Failed to fetch FAQ entries');
     }
   }
 }
 
-// Factory function to create ContentfulService with environment configuration
-export function createContentfulService(): ContentfulService | null {
+// Read Contentful credentials from the environment; null when any are missing
+export function getContentfulConfig(
+  env: Record<string, string | undefined> = process.env
+): ContentfulConfig | null {
   const config: ContentfulConfig = {
-    spaceId: process.env.CONTENTFUL_SPACE_ID || '',
-    environment: process.env.CONTENTFUL_ENVIRONMENT || 'master',
-    deliveryToken: process.env.CONTENTFUL_DELIVERY_TOKEN || '',
-    previewToken: process.env.CONTENTFUL_PREVIEW_TOKEN || '',
+    spaceId: env.CONTENTFUL_SPACE_ID || '',
+    environment: env.CONTENTFUL_ENVIRONMENT || 'master',
+    deliveryToken: env.CONTENTFUL_DELIVERY_TOKEN || '',
+    previewToken: env.CONTENTFUL_PREVIEW_TOKEN || '',
   };
 
+  if (!config.spaceId || !config.deliveryToken || !config.previewToken) {
+    return null;
+  }
+
+  return config;
+}
+
+// One policy per API, configured from the environment
+export function createRequestPolicies(
+  env: Record<string, string | undefined> = process.env
+): ContentfulRequestPolicies {
+  const options = getRequestPolicyOptions(env);
+  return {
+    delivery: new ContentfulRequestPolicy(options),
+    preview: new ContentfulRequestPolicy(options),
+  };
+}
+
+// Factory function to create ContentfulService with environment configuration
+export function createContentfulService(
+  validator: ContentValidator = getContentValidator()
+): ContentfulService | null {
+  const config = getContentfulConfig();
+
   // Return null if required environment variables are missing
   // This allows fallback to mock data in development
-  if (!config.spaceId || !config.deliveryToken || !config.previewToken) {
+  if (!config) {
     return null;
   }
 
-  const deliveryClient = createDeliveryClient(config);
-  const previewClient = createPreviewClient(config);
+  const policies = createRequestPolicies();
+  const deliveryClient = createDeliveryClient(config, policies.delivery);
+  const previewClient = createPreviewClient(config, policies.preview);
 
-  return new ContentfulService(deliveryClient, previewClient);
+  return new ContentfulService(deliveryClient, previewClient, policies, validator);
 }
@@ -0,0 +1,306 @@
+// Request policy for Contentful API calls
+// Classifies SDK failures into typed errors and applies per-call timeouts and rate-limit-aware retries
+
+import type { CreateClientParams } from 'contentful';
+
+// Seconds until the rate limit window resets, sent with every 429 response
+export const RATE_LIMIT_RESET_HEADER = 'x-contentful-ratelimit-reset';
+
+export type ContentErrorKind =
+  | 'not-found'
+  | 'rate-limited'
+  | 'auth'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'request';
+
+export interface ContentErrorOptions {
+  status?: number;
+  // Milliseconds until Contentful accepts requests again
+  retryAfter?: number;
+  cause?: unknown;
+}
+
+// Base class for failed Contentful requests; `kind` tells callers how to react
+export class ContentRequestError extends Error {
+  readonly kind: ContentErrorKind = 'request';
+  readonly status?: number;
+  readonly retryAfter?: number;
+
+  constructor(message: string, options: ContentErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+  }
+
+  // Transient failures that another attempt may get past
+  get retryable(): boolean {
+    return ['rate-limited', 'network', 'timeout', 'server'].includes(this.kind);
+  }
+
+  /**
+   * Same error type with a caller-facing message, keeping this error as the cause
+   */
+  withContext(message: string): ContentRequestError {
+    const ErrorType = this.constructor as new (
+      message: string,
+      options: ContentErrorOptions
+    ) => ContentRequestError;
+    return new ErrorType(message, {
+      status: this.status,
+      retryAfter: this.retryAfter,
+      cause: this,
+    });
+  }
+}
+
+// The space, environment or requested resource does not exist
+export class ContentNotFoundError extends ContentRequestError {
+  override readonly kind = 'not-found';
+}
+
+// Contentful answered 429
+export class ContentRateLimitError extends ContentRequestError {
+  override readonly kind = 'rate-limited';
+}
+
+// The access token is missing, invalid or lacks access to the space
+export class ContentAuthError extends ContentRequestError {
+  override readonly kind = 'auth';
+}
+
+// No response arrived, e.g. DNS failures or dropped connections
+export class ContentNetworkError extends ContentRequestError {
+  override readonly kind: ContentErrorKind = 'network';
+}
+
+// The call did not finish within the policy's timeout
+export class ContentTimeoutError extends ContentNetworkError {
+  override readonly kind = 'timeout';
+}
+
+// Contentful answered with a 5xx status
+export class ContentServerError extends ContentRequestError {
+  override readonly kind = 'server';
+}
+
+// Error names the SDK takes from the `sys.id` of Contentful error responses
+const ERROR_TYPES_BY_NAME: Record<string, typeof ContentRequestError> = {
+  NotFound: ContentNotFoundError,
+  RateLimitExceeded: ContentRateLimitError,
+  AccessTokenInvalid: ContentAuthError,
+  AccessDenied: ContentAuthError,
+  ServerError: ContentServerError,
+};
+
+// Axios error codes for requests that never got a response
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT']);
+
+// The SDK serializes status and message into the error message as JSON
+function readSdkError(error: Error): { status?: number; message?: string } {
+  try {
+    const details = JSON.parse(error.message) as { status?: unknown; message?: unknown };
+    return {
+      status: typeof details.status === 'number' ? details.status : undefined,
+      message: typeof details.message === 'string' ? details.message : undefined,
+    };
+  } catch {
+    const status = /^(\d{3}) /.exec(error.name)?.[1];
+    return { status: status ? Number(status) : undefined, message: error.message };
+  }
+}
+
+function errorTypeForStatus(status: number | undefined): typeof ContentRequestError {
+  if (status === 404) return ContentNotFoundError;
+  if (status === 429) return ContentRateLimitError;
+  if (status === 401 || status === 403) return ContentAuthError;
+  if (status !== undefined && status >= 500) return ContentServerError;
+  return ContentRequestError;
+}
+
+/**
+ * Classify anything a Contentful call can throw, keeping the original error as the cause
+ */
+export function toContentRequestError(error: unknown, message: string): ContentRequestError {
+  if (error instanceof ContentRequestError) return error;
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === 'string' && !(error as { response?: unknown }).response) {
+    const ErrorType = TIMEOUT_CODES.has(code) ? ContentTimeoutError : ContentNetworkError;
+    return new ErrorType(`${message}: ${code}`, { cause: error });
+  }
+
+  if (!(error instanceof Error)) {
+    return new ContentRequestError(message, { cause: error });
+  }
+
+  const details = readSdkError(error);
+  const ErrorType = ERROR_TYPES_BY_NAME[error.name] ?? errorTypeForStatus(details.status);
+  return new ErrorType(details.message ? `${message}: ${details.message}` : message, {
+    status: details.status,
+    cause: error,
+  });
+}
+
+/**
+ * Rethrowable error for a failed service call: typed errors keep their type, anything else is classified
+ */
+export function wrapContentError(error: unknown, message: string): ContentRequestError {
+  return error instanceof ContentRequestError
+    ? error.withContext(message)
+    : toContentRequestError(error, message);
+}
+
+// Remembers the latest rate limit reset Contentful reported for a client
+export class RateLimitTracker {
+  private resetAt = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  // Used as the SDK's responseLogger, which sees raw failed responses before the SDK replaces
+  // the error with one that drops the headers
+  readonly observe = (response: unknown): void => {
+    const failed = (response as { response?: { status?: number; headers?: unknown } } | null)
+      ?.response;
+    if (failed?.status !== 429) return;
+
+    const headers = failed.headers as Record<string, unknown> | undefined;
+    const seconds = Number(headers?.[RATE_LIMIT_RESET_HEADER]);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      this.record(seconds);
+    }
+  };
+
+  record(seconds: number): void {
+    this.resetAt = Math.max(this.resetAt, this.now() + seconds * 1000);
+  }
+
+  // Milliseconds until the reported window resets; 0 when no limit is pending
+  remaining(): number {
+    return Math.max(0, this.resetAt - this.now());
+  }
+}
+
+export interface RequestPolicyOptions {
+  // Attempts after the first one; 0 disables retries
+  retries: number;
+  // Delay before the first retry in milliseconds, doubled for each further retry
+  baseDelay: number;
+  // Longest wait between attempts; a rate limit resetting later than this fails immediately
+  maxDelay: number;
+  // Deadline for each attempt in milliseconds
+  timeout: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicyOptions = {
+  retries: 4,
+  baseDelay: 250,
+  maxDelay: 10 * 1000,
+  timeout: 15 * 1000,
+};
+
+function readNonNegativeInteger(value: string | undefined): number | undefined {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+// Read CONTENTFUL_REQUEST_RETRIES and CONTENTFUL_REQUEST_TIMEOUT (milliseconds) over the defaults
+export function getRequestPolicyOptions(
+  env: Record<string, string | undefined> = process.env
+): RequestPolicyOptions {
+  return {
+    ...DEFAULT_REQUEST_POLICY,
+    retries:
+      readNonNegativeInteger(env.CONTENTFUL_REQUEST_RETRIES) ?? DEFAULT_REQUEST_POLICY.retries,
+    timeout:
+      readNonNegativeInteger(env.CONTENTFUL_REQUEST_TIMEOUT) || DEFAULT_REQUEST_POLICY.timeout,
+  };
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Runs Contentful calls with a timeout, retrying transient failures with exponential backoff
+export class ContentfulRequestPolicy {
+  readonly options: RequestPolicyOptions;
+
+  constructor(
+    options: Partial<RequestPolicyOptions> = {},
+    readonly rateLimits = new RateLimitTracker(),
+    private readonly sleep: (ms: number) => Promise<void> = delay
+  ) {
+    this.options = { ...DEFAULT_REQUEST_POLICY, ...options };
+  }
+
+  // SDK options that hand retries to this policy and report rate limit headers to it
+  get clientOptions(): Pick<CreateClientParams, 'retryOnError' | 'timeout' | 'responseLogger'> {
+    return {
+      retryOnError: false,
+      timeout: this.options.timeout,
+      responseLogger: this.rateLimits.observe,
+    };
+  }
+
+  private withTimeout<T>(operation: string, request: () => Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new ContentTimeoutError(`${operation} timed out after ${this.options.timeout} ms`)
+          ),
+        this.options.timeout
+      );
+    });
+
+    return Promise.race([request(), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  // Attach the reset the tracker saw, since SDK errors no longer carry the response headers
+  private classify(error: unknown, operation: string): ContentRequestError {
+    const failure = toContentRequestError(error, `${operation} failed`);
+    const reset = this.rateLimits.remaining();
+
+    return failure.kind === 'rate-limited' && failure.retryAfter === undefined && reset > 0
+      ? new ContentRateLimitError(failure.message, {
+          status: failure.status,
+          retryAfter: reset,
+          cause: failure.cause,
+        })
+      : failure;
+  }
+
+  /**
+   * Milliseconds to wait before retrying, or null when the failure should be thrown
+   */
+  getRetryDelay(error: ContentRequestError, attempt: number): number | null {
+    if (!error.retryable || attempt >= this.options.retries) return null;
+
+    const backoff = Math.min(this.options.maxDelay, this.options.baseDelay * 2 ** attempt);
+    if (error.kind !== 'rate-limited') return backoff;
+
+    const reset = error.retryAfter ?? 0;
+    // Waiting out an hourly limit would stall the whole build
+    if (reset > this.options.maxDelay) return null;
+    return Math.max(reset, backoff);
+  }
+
+  /**
+   * Run a request under this policy, throwing a typed error once retries are exhausted
+   */
+  async run<T>(operation: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTimeout(operation, request);
+      } catch (error) {
+        const failure = this.classify(error, operation);
+        const wait = this.getRetryDelay(failure, attempt);
+        if (wait === null) throw failure;
+
+        console.warn(`${operation} failed (${failure.kind}), retrying in ${wait} ms`);
+        await this.sleep(wait);
+      }
+    }
+  }
+}
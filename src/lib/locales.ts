@@ -0,0 +1,65 @@
+// Site locales and locale-prefixed paths
+// Maps the Contentful locales the site publishes onto URL prefixes and hreflang values
+
+export interface SiteLocale {
+  // Contentful locale code, also used for hreflang and the html lang attribute, e.g. `de-DE`
+  code: string;
+  // First path segment of the locale's pages; empty for the default locale
+  prefix: string;
+}
+
+export interface LocaleConfig {
+  defaultLocale: SiteLocale;
+  // Every published locale, default first
+  locales: SiteLocale[];
+}
+
+// A link to the same page in another language
+export interface AlternateUrl {
+  // Locale code, or `x-default` for the page shown to unmatched languages
+  hreflang: string;
+  url: string;
+}
+
+export const DEFAULT_LOCALE_CODE = 'en-US';
+
+const LOCALE_CODE_PATTERN = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+/**
+ * Build the locale config for a list of Contentful locale codes, the first being the default
+ * Prefixes use the language alone (`/de/`) unless two locales share it (`/pt-br/`, `/pt-pt/`)
+ */
+export function createLocaleConfig(codes: string[]): LocaleConfig {
+  const unique = [...new Set(codes.filter((code) => LOCALE_CODE_PATTERN.test(code)))];
+  const [defaultCode = DEFAULT_LOCALE_CODE, ...others] = unique;
+  const language = (code: string) => code.split('-')[0].toLowerCase();
+
+  const locales = [defaultCode, ...others].map((code, index) => {
+    if (index === 0) return { code, prefix: '' };
+    const shared = unique.filter((other) => language(other) === language(code)).length > 1;
+    return { code, prefix: shared ? code.toLowerCase() : language(code) };
+  });
+
+  return { defaultLocale: locales[0], locales };
+}
+
+// Read SITE_LOCALES, a comma-separated list of Contentful locale codes with the default first
+export function getLocaleConfig(
+  env: Record<string, string | undefined> = process.env
+): LocaleConfig {
+  const codes = (env.SITE_LOCALES ?? '').split(',').map((code) => code.trim());
+  return createLocaleConfig(codes);
+}
+
+// Find a configured locale by its code
+export function findLocale(config: LocaleConfig, code: string): SiteLocale | undefined {
+  return config.locales.find((locale) => locale.code === code);
+}
+
+/**
+ * Prefix a root-relative path with the locale's path segment
+ */
+export function localizePath(path: string, locale: SiteLocale): string {
+  if (!locale.prefix) return path;
+  return path === '/' ? `/${locale.prefix}/` : `/${locale.prefix}${path}`;
+}
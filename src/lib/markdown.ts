@@ -0,0 +1,190 @@
+// Markdown to Rich Text conversion
+// Parses the Markdown subset used by mock content into Contentful Rich Text nodes,
+// so both sources share one renderer. Raw HTML is never passed through.
+
+import type {
+  RichTextDocument,
+  RichTextElement,
+  RichTextMark,
+  RichTextNode,
+  RichTextText,
+} from './contentful.js';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const HR_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Parse a Markdown string into a Rich Text document
+ * Fenced code blocks become code-marked paragraphs, matching how Contentful stores them
+ */
+export function parseMarkdown(source: string): RichTextDocument {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  return {
+    nodeType: 'document',
+    data: {},
+    content: parseBlocks(lines),
+  };
+}
+
+/**
+ * Parse a sequence of lines into block-level nodes
+ */
+function parseBlocks(lines: string[]): RichTextNode[] {
+  const blocks: RichTextNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++; // Skip closing fence
+      blocks.push(element('paragraph', [text(codeLines.join('\n'), [{ type: 'code' }])]));
+      continue;
+    }
+
+    // ATX heading
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push(element(`heading-${heading[1].length}`, parseInline(heading[2])));
+      index++;
+      continue;
+    }
+
+    // Horizontal rule
+    if (HR_PATTERN.test(line)) {
+      blocks.push(element('hr', []));
+      index++;
+      continue;
+    }
+
+    // Blockquote
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && BLOCKQUOTE_PATTERN.test(lines[index])) {
+        quoteLines.push((lines[index].match(BLOCKQUOTE_PATTERN) as RegExpMatchArray)[1]);
+        index++;
+      }
+      blocks.push(element('blockquote', parseBlocks(quoteLines)));
+      continue;
+    }
+
+    // Lists
+    const listPattern = UNORDERED_ITEM_PATTERN.test(line)
+      ? UNORDERED_ITEM_PATTERN
+      : ORDERED_ITEM_PATTERN.test(line)
+        ? ORDERED_ITEM_PATTERN
+        : null;
+    if (listPattern) {
+      const items: RichTextNode[] = [];
+      while (index < lines.length && listPattern.test(lines[index])) {
+        const itemLines = [(lines[index].match(listPattern) as RegExpMatchArray)[1]];
+        index++;
+        // Indented continuation lines belong to the current item
+        while (
+          index < lines.length &&
+          /^\s{2,}\S/.test(lines[index]) &&
+          !isListItem(lines[index])
+        ) {
+          itemLines.push(lines[index].trim());
+          index++;
+        }
+        items.push(element('list-item', [element('paragraph', parseInline(itemLines.join(' ')))]));
+      }
+      const listType = listPattern === UNORDERED_ITEM_PATTERN ? 'unordered-list' : 'ordered-list';
+      blocks.push(element(listType, items));
+      continue;
+    }
+
+    // Paragraph: consume until a blank line or another block starts
+    const paragraphLines: string[] = [line.trim()];
+    index++;
+    while (index < lines.length && lines[index].trim() !== '' && !startsBlock(lines[index])) {
+      paragraphLines.push(lines[index].trim());
+      index++;
+    }
+    blocks.push(element('paragraph', parseInline(paragraphLines.join(' '))));
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse inline Markdown (code spans, links, strong and emphasis) into text and hyperlink nodes
+ */
+function parseInline(source: string, marks: RichTextMark[] = []): RichTextNode[] {
+  const nodes: RichTextNode[] = [];
+  const inlinePattern =
+    /`([^`]+)`|!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|(?<![\w])_([^_\s][^_]*?)_(?![\w])/g;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(inlinePattern)) {
+    const matchIndex = match.index ?? 0;
+    if (matchIndex > lastIndex) {
+      nodes.push(text(source.slice(lastIndex, matchIndex), marks));
+    }
+
+    const [, code, linkText, linkUrl, strong, strongAlt, emphasis, emphasisAlt] = match;
+
+    if (code !== undefined) {
+      nodes.push(text(code, [...marks, { type: 'code' }]));
+    } else if (linkUrl !== undefined) {
+      nodes.push({
+        nodeType: 'hyperlink',
+        data: { uri: linkUrl },
+        content: parseInline(linkText || linkUrl, marks),
+      });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(...parseInline(strong ?? strongAlt, [...marks, { type: 'bold' }]));
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push(...parseInline(emphasis ?? emphasisAlt, [...marks, { type: 'italic' }]));
+    }
+
+    lastIndex = matchIndex + match[0].length;
+  }
+
+  if (lastIndex < source.length) {
+    nodes.push(text(source.slice(lastIndex), marks));
+  }
+
+  return nodes;
+}
+
+function isListItem(line: string): boolean {
+  return UNORDERED_ITEM_PATTERN.test(line) || ORDERED_ITEM_PATTERN.test(line);
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    HR_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    isListItem(line)
+  );
+}
+
+function element(nodeType: string, content: RichTextNode[]): RichTextElement {
+  return { nodeType, data: {}, content };
+}
+
+function text(value: string, marks: RichTextMark[] = []): RichTextText {
+  return { nodeType: 'text', value, marks, data: {} };
+}
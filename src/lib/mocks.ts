@@ -3,10 +3,12 @@ import type {
   BlogPost,
   Category,
   ContentFetcher,
+  ContentPage,
   ContentfulAsset,
   FaqEntry,
   Guide,
   GuideStep,
+  PageOptions,
 } from './contentful.js';
 
 // Mock Contentful assets
@@ -555,6 +557,18 @@ export const mockFaqEntries: FaqEntry[] = [
   },
 ];
 
+// Slice a sorted mock collection the way the Delivery API pages a query
+function toMockPage<T>(items: T[], options: PageOptions): ContentPage<T> {
+  const { skip, limit } = resolvePageOptions(options);
+
+  return {
+    items: items.slice(skip, skip + limit),
+    total: items.length,
+    skip,
+    limit,
+  };
+}
+
 // Mock service implementation
 export class MockContentfulService implements ContentFetcher {
   async getBlogPost(slug: string, _preview = false): Promise<BlogPost | null> {
@@ -573,6 +587,46 @@ export class MockContentfulService implements ContentFetcher {
       .slice(0, limit);
   }
 
+  async getBlogPostsPage(
+    options: PageOptions = {},
+    _preview = false
+  ): Promise<ContentPage<BlogPost>> {
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    return toMockPage(
+      mockBlogPosts.sort(
+        (a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+      ),
+      options
+    );
+  }
+
+  iterateBlogPosts(
+    pageSize = DEFAULT_PAGE_SIZE,
+    preview = false
+  ): AsyncIterable<ContentPage<BlogPost>> {
+    return iteratePages((options) => this.getBlogPostsPage(options, preview), pageSize);
+  }
+
+  async getAllBlogPosts(preview = false): Promise<BlogPost[]> {
+    return collectPages(this.iterateBlogPosts(DEFAULT_PAGE_SIZE, preview));
+  }
+
+  async getBlogPostsByCategory(categorySlug: string, preview = false): Promise<BlogPost[]> {
+    const posts = await this.getAllBlogPosts(preview);
+    return posts.filter((post) => post.category.slug === categorySlug);
+  }
+
+  async getBlogPostsByTag(tag: string, preview = false): Promise<BlogPost[]> {
+    const posts = await this.getAllBlogPosts(preview);
+    return posts.filter((post) => post.tags.includes(tag));
+  }
+
+  async getBlogPostsByAuthor(authorSlug: string, preview = false): Promise<BlogPost[]> {
+    const posts = await this.getAllBlogPosts(preview);
+    return posts.filter((post) => post.author.slug === authorSlug);
+  }
+
   async getGuide(slug: string, _preview = false): Promise<Guide | null> {
     await new Promise((resolve) => setTimeout(resolve, 100));
 
@@ -588,6 +642,30 @@ export class MockContentfulService implements ContentFetcher {
       .slice(0, limit);
   }
 
+  async getGuidesPage(options: PageOptions = {}, _preview = false): Promise<ContentPage<Guide>> {
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    return toMockPage(
+      mockGuides.sort(
+        (a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime()
+      ),
+      options
+    );
+  }
+
+  iterateGuides(pageSize = DEFAULT_PAGE_SIZE, preview = false): AsyncIterable<ContentPage<Guide>> {
+    return iteratePages((options) => this.getGuidesPage(options, preview), pageSize);
+  }
+
+  async getAllGuides(preview = false): Promise<Guide[]> {
+    return collectPages(this.iterateGuides(DEFAULT_PAGE_SIZE, preview));
+  }
+
+  async getGuidesByCategory(categorySlug: string, preview = false): Promise<Guide[]> {
+    const guides = await this.getAllGuides(preview);
+    return guides.filter((guide) => guide.category.slug === categorySlug);
+  }
+
   async getCategory(slug: string, _preview = false): Promise<Category | null> {
     await new Promise((resolve) => setTimeout(resolve, 100));
 
@@ -601,20 +679,54 @@ export class MockContentfulService implements ContentFetcher {
     return [...mockCategories].sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  async getAuthor(slug: string, _preview = false): Promise<Author | null> {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const author = mockAuthors.find((author) => author.slug === slug);
+    return author || null;
+  }
+
+  async getAuthors(_preview = false): Promise<Author[]> {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    return [...mockAuthors].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
   async getFaqEntries(_preview = false): Promise<FaqEntry[]> {
     await new Promise((resolve) => setTimeout(resolve, 100));
 
     return [...mockFaqEntries].sort((a, b) => a.order - b.order);
   }
+
+  // Mock content is only written in English
+  withLocale(_locale: string): MockContentfulService {
+    return this;
+  }
+}
+
+// Create the content service for the default locale, or a configured locale's content
+export function createContentService(locale?: string): ContentFetcher {
+  const service = createDefaultLocaleContentService();
+  return locale && locale !== getLocaleConfig().defaultLocale.code
+    ? service.withLocale(locale)
+    : service;
 }
 
 // Factory function to create the appropriate content service
-export function createContentService(): ContentFetcher {
+function createDefaultLocaleContentService(): ContentFetcher {
+  // Builds read published content from the synced snapshot instead of querying per page
+  const cachedService = createCachedContentService();
+
+  if (cachedService) {
+    return cachedService;
+  }
+
   // Try to create real Contentful service first
   const contentfulService = createContentfulService();
 
   if (contentfulService) {
-    return contentfulService;
+    // Pages repeat the same queries, so identical requests are coalesced and reused
+    return createMemoizedContentService(contentfulService);
   }
 
   // Fallback to mock service in development or when credentials are missing
@@ -623,4 +735,13 @@ export function createContentService(): ContentFetcher {
 }
 
 // Import the real service factory
-import { createContentfulService } from './contentful.js';
+import { createCachedContentService } from './contentCache.js';
+import { createMemoizedContentService } from './contentMemo.js';
+import {
+  DEFAULT_PAGE_SIZE,
+  collectPages,
+  createContentfulService,
+  iteratePages,
+  resolvePageOptions,
+} from './contentful.js';
+import { getLocaleConfig } from './locales.js';
@@ -0,0 +1,48 @@
+// Archive pagination utilities
+// Splits listings into fixed-size pages shared by archive routes and the pages sitemap
+
+// Number of items shown on each archive page
+export const ARCHIVE_PAGE_SIZE = 12;
+
+export interface PaginatedPage<T> {
+  items: T[];
+  currentPage: number;
+  totalPages: number;
+  totalItems: number;
+  pageSize: number;
+  // Zero-based index of the first item on this page within the full listing
+  startIndex: number;
+}
+
+/**
+ * Calculate the number of archive pages for a listing
+ * An empty listing still has one (empty) page so the archive root always exists
+ */
+export function getTotalPages(totalItems: number, pageSize = ARCHIVE_PAGE_SIZE): number {
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`Invalid page size: ${pageSize}`);
+  }
+
+  return Math.max(1, Math.ceil(totalItems / pageSize));
+}
+
+/**
+ * Split a listing into consecutive pages
+ * Items keep their order, so callers sort before paginating
+ */
+export function paginateItems<T>(items: T[], pageSize = ARCHIVE_PAGE_SIZE): PaginatedPage<T>[] {
+  const totalPages = getTotalPages(items.length, pageSize);
+
+  return Array.from({ length: totalPages }, (_, index) => {
+    const startIndex = index * pageSize;
+
+    return {
+      items: items.slice(startIndex, startIndex + pageSize),
+      currentPage: index + 1,
+      totalPages,
+      totalItems: items.length,
+      pageSize,
+      startIndex,
+    };
+  });
+}
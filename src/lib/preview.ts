@@ -0,0 +1,368 @@
+// Draft preview helpers
+// Signed session tokens and SEO overrides shared by the SSR routes under /preview
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { AstroCookies } from 'astro';
+import { type BlogPost, type Category, type Guide, getContentfulConfig } from './contentful.js';
+
+// Content types that have a /preview route
+export const PREVIEW_CONTENT_TYPES = ['blog', 'guide', 'category', 'faq'] as const;
+
+export type PreviewContentType = (typeof PREVIEW_CONTENT_TYPES)[number];
+
+// Cookie holding the signed session token set by /api/preview
+export const PREVIEW_COOKIE = 'preview';
+
+// Lifetime of a preview session, in seconds
+export const PREVIEW_SESSION_MAX_AGE = 60 * 60;
+
+export const PREVIEW_TOKEN_VERSION = 1;
+
+// Accepted only while pages use mock content (no Contentful credentials) outside production
+const DEVELOPMENT_PREVIEW_SECRET = 'mock-preview-secret';
+
+// Sent as X-Robots-Tag on every preview response, in addition to the robots meta tag
+export const PREVIEW_ROBOTS_HEADER = 'noindex, nofollow';
+
+// Fields compared between the draft and the delivery API version, in toolbar order
+export const PREVIEW_DIFF_FIELDS = {
+  title: 'Title',
+  excerpt: 'Excerpt',
+  seoTitle: 'SEO title',
+  seoDescription: 'SEO description',
+  seoImage: 'SEO image',
+  featuredImage: 'Featured image',
+} as const;
+
+export type PreviewDiffField = keyof typeof PREVIEW_DIFF_FIELDS;
+
+// Single entries the toolbar can compare; the FAQ page is a collection and has no one entry
+export type PreviewEntry =
+  | { type: 'blog'; content: BlogPost }
+  | { type: 'guide'; content: Guide }
+  | { type: 'category'; content: Category };
+
+// draft: never published; changed: published with pending edits; published: no pending edits
+export type PreviewEntryState = 'draft' | 'changed' | 'published';
+
+export interface PreviewFieldDiff {
+  field: PreviewDiffField;
+  label: string;
+  draft?: string;
+  published?: string;
+  changed: boolean;
+}
+
+export interface PreviewComparison {
+  state: PreviewEntryState;
+  fields: PreviewFieldDiff[];
+}
+
+export interface PreviewSeoInput {
+  title: string;
+  canonical?: string;
+  noindex?: boolean;
+  nofollow?: boolean;
+}
+
+// The entry a preview session grants access to
+export interface PreviewTarget {
+  contentType: PreviewContentType;
+  slug?: string;
+}
+
+export interface PreviewTokenPayload {
+  v: typeof PREVIEW_TOKEN_VERSION;
+  type: PreviewContentType;
+  slug?: string;
+  iss: string;
+  iat: number;
+  exp: number;
+}
+
+export type PreviewTokenError = 'malformed' | 'signature' | 'issuer' | 'expired' | 'target';
+
+export type PreviewTokenResult =
+  | { valid: true; payload: PreviewTokenPayload }
+  | { valid: false; error: PreviewTokenError };
+
+export interface PreviewTokenConfig {
+  // First secret signs new tokens; all of them are accepted, so old secrets can be rotated out
+  secrets: string[];
+  issuer: string;
+  maxAge?: number;
+}
+
+/**
+ * Check whether a value names a previewable content type
+ */
+export function isPreviewContentType(value: unknown): value is PreviewContentType {
+  return PREVIEW_CONTENT_TYPES.includes(value as PreviewContentType);
+}
+
+/**
+ * Check whether a content type is addressed by slug
+ * The FAQ page is a single listing, so it has no slug
+ */
+export function previewRequiresSlug(contentType: PreviewContentType): boolean {
+  return contentType !== 'faq';
+}
+
+/**
+ * Compare two strings in constant time
+ * Both sides are hashed first so differing lengths do not short-circuit
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const digest = (value: string) => createHmac('sha256', 'preview-compare').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+const encodeBase64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+function isPreviewTokenPayload(value: unknown): value is PreviewTokenPayload {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const payload = value as Record<string, unknown>;
+  return (
+    payload.v === PREVIEW_TOKEN_VERSION &&
+    isPreviewContentType(payload.type) &&
+    (payload.slug === undefined || typeof payload.slug === 'string') &&
+    typeof payload.iss === 'string' &&
+    Number.isInteger(payload.iat) &&
+    Number.isInteger(payload.exp)
+  );
+}
+
+export class PreviewTokenSigner {
+  private readonly maxAge: number;
+
+  constructor(private readonly config: PreviewTokenConfig) {
+    this.maxAge = config.maxAge ?? PREVIEW_SESSION_MAX_AGE;
+  }
+
+  /**
+   * Whether any secret is configured; without one, preview cannot be activated
+   */
+  get isConfigured(): boolean {
+    return this.config.secrets.length > 0;
+  }
+
+  /**
+   * Check a shared secret (e.g. from Contentful) against every accepted secret
+   */
+  matchesSecret(candidate: string): boolean {
+    // Compare against all secrets so timing does not reveal which one matched
+    return this.config.secrets.reduce(
+      (matched, secret) => safeCompare(candidate, secret) || matched,
+      false
+    );
+  }
+
+  /**
+   * Sign a session token for one previewable entry
+   * Tokens are base64url(payload).base64url(HMAC-SHA256 of the payload)
+   */
+  sign(target: PreviewTarget, now = Date.now()): string {
+    const [secret] = this.config.secrets;
+    if (!secret) {
+      throw new Error('Preview tokens cannot be signed without CONTENTFUL_PREVIEW_SECRET');
+    }
+    if (previewRequiresSlug(target.contentType) && !target.slug) {
+      throw new Error(`Preview token for ${target.contentType} requires a slug`);
+    }
+
+    const issuedAt = Math.floor(now / 1000);
+    const payload: PreviewTokenPayload = {
+      v: PREVIEW_TOKEN_VERSION,
+      type: target.contentType,
+      ...(previewRequiresSlug(target.contentType) && { slug: target.slug }),
+      iss: this.config.issuer,
+      iat: issuedAt,
+      exp: issuedAt + this.maxAge,
+    };
+    const encodedPayload = encodeBase64Url(JSON.stringify(payload));
+
+    return `${encodedPayload}.${this.signature(encodedPayload, secret)}`;
+  }
+
+  /**
+   * Verify a session token's signature, issuer and expiry
+   * When a target is given, the token must have been issued for that entry
+   */
+  verify(token: string, target?: PreviewTarget, now = Date.now()): PreviewTokenResult {
+    const parts = token.split('.');
+    if (parts.length !== 2 || !parts[0] || !parts[1]) {
+      return { valid: false, error: 'malformed' };
+    }
+
+    const [encodedPayload, signature] = parts;
+    const signed = this.config.secrets.reduce(
+      (matched, secret) =>
+        safeCompare(signature, this.signature(encodedPayload, secret)) || matched,
+      false
+    );
+    if (!signed) {
+      return { valid: false, error: 'signature' };
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return { valid: false, error: 'malformed' };
+    }
+    if (!isPreviewTokenPayload(payload)) {
+      return { valid: false, error: 'malformed' };
+    }
+    if (payload.iss !== this.config.issuer) {
+      return { valid: false, error: 'issuer' };
+    }
+    if (payload.exp <= Math.floor(now / 1000)) {
+      return { valid: false, error: 'expired' };
+    }
+    if (
+      target &&
+      (payload.type !== target.contentType ||
+        (previewRequiresSlug(target.contentType) && payload.slug !== target.slug))
+    ) {
+      return { valid: false, error: 'target' };
+    }
+
+    return { valid: true, payload };
+  }
+
+  private signature(encodedPayload: string, secret: string): string {
+    return encodeBase64Url(createHmac('sha256', secret).update(encodedPayload).digest());
+  }
+}
+
+/**
+ * Read accepted preview secrets from CONTENTFUL_PREVIEW_SECRET (comma-separated, newest first)
+ * A site with Contentful credentials has no fallback secret, whatever NODE_ENV says
+ */
+export function getPreviewSecrets(env: Record<string, string | undefined> = process.env): string[] {
+  const secrets = (env.CONTENTFUL_PREVIEW_SECRET || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  if (secrets.length === 0 && env.NODE_ENV !== 'production' && !getContentfulConfig(env)) {
+    return [DEVELOPMENT_PREVIEW_SECRET];
+  }
+  return secrets;
+}
+
+// Factory function to create a signer from environment configuration
+export function createPreviewTokenSigner(
+  config: Partial<PreviewTokenConfig> = {}
+): PreviewTokenSigner {
+  return new PreviewTokenSigner({
+    secrets: config.secrets ?? getPreviewSecrets(),
+    issuer: config.issuer ?? (process.env.SITE_URL || 'http://localhost:4321'),
+    maxAge: config.maxAge,
+  });
+}
+
+/**
+ * Check whether the request carries a valid preview session for the given entry
+ */
+export function isPreviewSession(
+  cookies: Pick<AstroCookies, 'get'>,
+  target: PreviewTarget,
+  signer: PreviewTokenSigner = createPreviewTokenSigner()
+): boolean {
+  const token = cookies.get(PREVIEW_COOKIE)?.value;
+  return token ? signer.verify(token, target).valid : false;
+}
+
+/**
+ * Turn published-page SEO into preview SEO
+ * Marks the title, points the canonical at the preview URL and forces noindex/nofollow
+ */
+export function applyPreviewSeo<T extends PreviewSeoInput>(
+  seo: T,
+  previewUrl: string
+): T & { noindex: true; nofollow: true } {
+  return {
+    ...seo,
+    title: `[PREVIEW] ${seo.title}`,
+    canonical: previewUrl,
+    noindex: true,
+    nofollow: true,
+  };
+}
+
+/**
+ * Extract the toolbar fields from an entry
+ * Guides and categories have no SEO overrides, so those fields stay undefined
+ */
+export function getPreviewFields(
+  entry: PreviewEntry
+): Record<PreviewDiffField, string | undefined> {
+  switch (entry.type) {
+    case 'blog':
+      return {
+        title: entry.content.title,
+        excerpt: entry.content.excerpt,
+        seoTitle: entry.content.seo?.title,
+        seoDescription: entry.content.seo?.description,
+        seoImage: entry.content.seo?.ogImage?.fields.file.url,
+        featuredImage: entry.content.featuredImage?.fields.file.url,
+      };
+    case 'guide':
+      return {
+        title: entry.content.title,
+        excerpt: entry.content.description,
+        seoTitle: undefined,
+        seoDescription: undefined,
+        seoImage: undefined,
+        featuredImage: entry.content.featuredImage?.fields.file.url,
+      };
+    case 'category':
+      return {
+        title: entry.content.name,
+        excerpt: entry.content.description,
+        seoTitle: undefined,
+        seoDescription: undefined,
+        seoImage: undefined,
+        featuredImage: entry.content.featuredImage?.fields.file.url,
+      };
+  }
+}
+
+/**
+ * Compare a draft entry with its delivery API version
+ * Pass null as published when the delivery API does not return the entry
+ */
+export function comparePreviewEntries(
+  draft: PreviewEntry,
+  published: PreviewEntry | null
+): PreviewComparison {
+  const draftFields = getPreviewFields(draft);
+  const publishedFields = published ? getPreviewFields(published) : null;
+
+  const fields = (Object.keys(PREVIEW_DIFF_FIELDS) as PreviewDiffField[])
+    .map((field) => ({
+      field,
+      label: PREVIEW_DIFF_FIELDS[field],
+      draft: draftFields[field],
+      published: publishedFields?.[field],
+      changed: publishedFields !== null && draftFields[field] !== publishedFields[field],
+    }))
+    // Skip fields that are empty in both versions
+    .filter((diff) => diff.draft !== undefined || diff.published !== undefined);
+
+  // A newer draft revision counts as changed even when only untracked fields (e.g. the body) differ
+  let state: PreviewEntryState = 'published';
+  if (!published) {
+    state = 'draft';
+  } else if (
+    fields.some((diff) => diff.changed) ||
+    draft.content.sys.updatedAt !== published.content.sys.updatedAt
+  ) {
+    state = 'changed';
+  }
+
+  return { state, fields };
+}
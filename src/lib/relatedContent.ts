@@ -0,0 +1,101 @@
+// Related content scoring
+// Ranks blog posts and guides against the page being viewed into one mixed list
+
+import type { BlogPost, Guide } from './contentful.js';
+import { normalizeTagSlug } from './tags.js';
+
+// Relative importance of each signal when scoring a candidate
+export const RELATED_CONTENT_WEIGHTS = {
+  category: 3,
+  sharedKeyword: 2,
+  recency: 1,
+} as const;
+
+// Number of related items shown on detail pages
+export const DEFAULT_RELATED_LIMIT = 4;
+
+// Candidates older than this (relative to the newest candidate) get no recency boost
+export const RECENCY_WINDOW_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ContentReference =
+  | { type: 'blog'; content: BlogPost }
+  | { type: 'guide'; content: Guide };
+
+export type RelatedContentItem = ContentReference & { score: number };
+
+export interface RelatedContentCandidates {
+  blogPosts: BlogPost[];
+  guides: Guide[];
+}
+
+/**
+ * Collect normalized topic keywords for a piece of content
+ * Post tags and guide tools share one vocabulary so posts and guides can match each other
+ */
+function getKeywords(reference: ContentReference): Set<string> {
+  const values = reference.type === 'blog' ? reference.content.tags : reference.content.tools;
+  return new Set(values.map((value) => normalizeTagSlug(value) ?? value.trim().toLowerCase()));
+}
+
+/**
+ * Score a candidate against the source content
+ * Recency is measured from the newest candidate so scores never depend on the build date
+ */
+export function scoreRelatedContent(
+  source: ContentReference,
+  candidate: ContentReference,
+  newestPublishedAt: number
+): number {
+  const sourceKeywords = getKeywords(source);
+  const sharedKeywords = [...getKeywords(candidate)].filter((keyword) =>
+    sourceKeywords.has(keyword)
+  ).length;
+
+  const ageDays = (newestPublishedAt - new Date(candidate.content.publishedAt).getTime()) / DAY_MS;
+  const recency = Math.max(0, 1 - ageDays / RECENCY_WINDOW_DAYS);
+
+  const sameCategory = candidate.content.category.slug === source.content.category.slug;
+
+  return (
+    (sameCategory ? RELATED_CONTENT_WEIGHTS.category : 0) +
+    sharedKeywords * RELATED_CONTENT_WEIGHTS.sharedKeyword +
+    recency * RELATED_CONTENT_WEIGHTS.recency
+  );
+}
+
+/**
+ * Rank posts and guides related to the source content
+ * Excludes the source itself and ties break on publish date then slug, so output is stable
+ */
+export function getRelatedContent(
+  source: ContentReference,
+  candidates: RelatedContentCandidates,
+  limit = DEFAULT_RELATED_LIMIT
+): RelatedContentItem[] {
+  const references: ContentReference[] = [
+    ...candidates.blogPosts.map((content) => ({ type: 'blog' as const, content })),
+    ...candidates.guides.map((content) => ({ type: 'guide' as const, content })),
+  ].filter(
+    (reference) =>
+      !(reference.type === source.type && reference.content.slug === source.content.slug)
+  );
+
+  const newestPublishedAt = Math.max(
+    ...references.map((reference) => new Date(reference.content.publishedAt).getTime())
+  );
+
+  return references
+    .map((reference) => ({
+      ...reference,
+      score: scoreRelatedContent(source, reference, newestPublishedAt),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.content.publishedAt).getTime() - new Date(a.content.publishedAt).getTime() ||
+        a.content.slug.localeCompare(b.content.slug)
+    )
+    .slice(0, limit);
+}
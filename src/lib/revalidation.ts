@@ -0,0 +1,411 @@
+// On-demand revalidation for Contentful webhooks
+// Verifies signed webhook requests, maps changed entries to affected pages and triggers a rebuild/purge hook
+
+import { createHmac } from 'node:crypto';
+import type { ContentFetcher } from './contentful.js';
+import { getTotalPages } from './pagination.js';
+import { safeCompare } from './preview.js';
+import { normalizeTagSlug } from './tags.js';
+import { type UrlPatternManager, createUrlPatternManager } from './urlPatterns.js';
+
+// Request verification headers sent by Contentful webhooks
+export const CONTENTFUL_SIGNATURE_HEADER = 'x-contentful-signature';
+export const CONTENTFUL_SIGNED_HEADERS_HEADER = 'x-contentful-signed-headers';
+export const CONTENTFUL_TIMESTAMP_HEADER = 'x-contentful-timestamp';
+export const CONTENTFUL_TOPIC_HEADER = 'x-contentful-topic';
+
+// Signed requests older than this are rejected to limit replays, in milliseconds
+export const WEBHOOK_SIGNATURE_TTL = 30 * 1000;
+
+// Locale read from webhook payloads, whose fields are keyed by locale
+export const WEBHOOK_DEFAULT_LOCALE = 'en-US';
+
+// Accepted outside production when CONTENTFUL_WEBHOOK_SECRET is unset, so webhooks can be replayed locally
+const DEVELOPMENT_WEBHOOK_SECRET = 'mock-webhook-secret';
+
+// Contentful content type IDs mapped to the site's content types
+export const REVALIDATION_CONTENT_TYPES = {
+  blogPost: 'blog',
+  guide: 'guide',
+  category: 'category',
+  author: 'author',
+  faqEntry: 'faq',
+} as const;
+
+export type RevalidationContentType =
+  (typeof REVALIDATION_CONTENT_TYPES)[keyof typeof REVALIDATION_CONTENT_TYPES];
+
+// Sitemaps listing each content type; the index is always included for its lastmod values
+const SITEMAP_PATHS: Record<RevalidationContentType, string[]> = {
+  blog: ['/sitemap-blog.xml', '/sitemap-tags.xml', '/sitemap-pages.xml'],
+  guide: ['/sitemap-guides.xml', '/sitemap-pages.xml'],
+  category: ['/sitemap-pages.xml'],
+  author: ['/sitemap-authors.xml'],
+  faq: ['/sitemap-pages.xml'],
+};
+
+export interface ContentfulWebhookRequest {
+  method: string;
+  // Path and query string of the webhook URL
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; error: 'missing-signature' | 'expired' | 'signature' };
+
+// An entry change described by a webhook payload
+export interface RevalidationChange {
+  contentType: RevalidationContentType;
+  entryId: string;
+  topic?: string;
+  slug?: string;
+}
+
+// Finds the slug an entry had when the site was last built, e.g. in the build's content snapshot
+export type EntrySlugLookup = (entryId: string) => Promise<string | undefined>;
+
+export interface RevalidationPlan {
+  change: RevalidationChange;
+  paths: string[];
+}
+
+// Receives the affected paths, e.g. a deploy hook or a CDN purge API
+export interface RevalidationHook {
+  readonly name: string;
+  trigger(plan: RevalidationPlan): Promise<void>;
+}
+
+/**
+ * Build the canonical request string Contentful signs
+ * Method, path, the signed headers as sorted name:value pairs, and the raw body, joined by newlines
+ */
+function canonicalizeWebhookRequest(request: ContentfulWebhookRequest, signedHeaders: string[]) {
+  const headers = [...signedHeaders]
+    .sort()
+    .map((name) => `${name}:${(request.headers.get(name) ?? '').trim()}`)
+    .join(';');
+  return [request.method.toUpperCase(), request.path, headers, request.body].join('\n');
+}
+
+/**
+ * Sign a webhook request the way Contentful does
+ * Used for tests and for replaying webhooks against a local server
+ */
+export function signContentfulWebhook(
+  request: Omit<ContentfulWebhookRequest, 'headers'> & { headers?: Record<string, string> },
+  secret: string,
+  now = Date.now()
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])
+    ),
+    [CONTENTFUL_TIMESTAMP_HEADER]: String(now),
+  };
+  const signedHeaders = [...Object.keys(headers), CONTENTFUL_SIGNED_HEADERS_HEADER].sort();
+  headers[CONTENTFUL_SIGNED_HEADERS_HEADER] = signedHeaders.join(',');
+
+  const canonical = canonicalizeWebhookRequest(
+    { ...request, headers: new Headers(headers) },
+    signedHeaders
+  );
+  return {
+    ...headers,
+    [CONTENTFUL_SIGNATURE_HEADER]: createHmac('sha256', secret).update(canonical).digest('hex'),
+  };
+}
+
+/**
+ * Verify a Contentful webhook request signature and timestamp
+ * Any of the given secrets may have signed it, so secrets can be rotated
+ */
+export function verifyContentfulWebhook(
+  request: ContentfulWebhookRequest,
+  secrets: string[],
+  now = Date.now(),
+  ttl = WEBHOOK_SIGNATURE_TTL
+): WebhookVerificationResult {
+  const signature = request.headers.get(CONTENTFUL_SIGNATURE_HEADER);
+  const signedHeaders = (request.headers.get(CONTENTFUL_SIGNED_HEADERS_HEADER) ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const timestamp = Number(request.headers.get(CONTENTFUL_TIMESTAMP_HEADER));
+
+  // The timestamp must itself be signed, or it could be replaced to dodge the TTL
+  if (!signature || !signedHeaders.includes(CONTENTFUL_TIMESTAMP_HEADER) || secrets.length === 0) {
+    return { valid: false, error: 'missing-signature' };
+  }
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > ttl) {
+    return { valid: false, error: 'expired' };
+  }
+
+  const canonical = canonicalizeWebhookRequest(request, signedHeaders);
+  const signed = secrets.reduce(
+    (matched, secret) =>
+      safeCompare(signature, createHmac('sha256', secret).update(canonical).digest('hex')) ||
+      matched,
+    false
+  );
+  return signed ? { valid: true } : { valid: false, error: 'signature' };
+}
+
+/**
+ * Read accepted webhook secrets from CONTENTFUL_WEBHOOK_SECRET (comma-separated, newest first)
+ */
+export function getWebhookSecrets(env: Record<string, string | undefined> = process.env): string[] {
+  const secrets = (env.CONTENTFUL_WEBHOOK_SECRET || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  if (secrets.length === 0 && env.NODE_ENV !== 'production') {
+    return [DEVELOPMENT_WEBHOOK_SECRET];
+  }
+  return secrets;
+}
+
+/**
+ * Extract the changed entry from a webhook payload
+ * Returns null for assets and content types the site does not render
+ */
+export function parseContentfulWebhook(
+  payload: unknown,
+  topic?: string,
+  locale = WEBHOOK_DEFAULT_LOCALE
+): RevalidationChange | null {
+  if (!payload || typeof payload !== 'object') {
+    return null;
+  }
+
+  const { sys, fields } = payload as {
+    sys?: { id?: unknown; contentType?: { sys?: { id?: unknown } } };
+    fields?: { slug?: unknown };
+  };
+  const contentTypeId = sys?.contentType?.sys?.id;
+  if (typeof sys?.id !== 'string' || typeof contentTypeId !== 'string') {
+    return null;
+  }
+  if (!Object.hasOwn(REVALIDATION_CONTENT_TYPES, contentTypeId)) {
+    return null;
+  }
+
+  // Entry payloads key fields by locale; custom payloads may send the slug directly.
+  // Unpublish and delete payloads carry no fields, so the slug is unknown for those
+  const rawSlug = fields?.slug;
+  const slug =
+    typeof rawSlug === 'string'
+      ? rawSlug
+      : rawSlug && typeof rawSlug === 'object'
+        ? (rawSlug as Record<string, unknown>)[locale]
+        : undefined;
+
+  return {
+    contentType:
+      REVALIDATION_CONTENT_TYPES[contentTypeId as keyof typeof REVALIDATION_CONTENT_TYPES],
+    entryId: sys.id,
+    topic,
+    slug: typeof slug === 'string' && slug ? slug : undefined,
+  };
+}
+
+export class RevalidationPlanner {
+  constructor(
+    private readonly urlManager: UrlPatternManager,
+    private readonly contentService?: ContentFetcher,
+    private readonly previousSlug?: EntrySlugLookup
+  ) {}
+
+  /**
+   * List the pages affected by an entry change
+   * With a content service, the published entry is looked up for its category, tags and author
+   * Detail pages cover both the new and the previously built slug, so renamed and removed
+   * entries lose their old URL too
+   */
+  async plan(change: RevalidationChange): Promise<RevalidationPlan> {
+    const paths = new Set<string>([
+      '/',
+      '/sitemap-index.xml',
+      ...SITEMAP_PATHS[change.contentType],
+    ]);
+    const add = (generate: () => string | string[]) => {
+      try {
+        for (const path of [generate()].flat()) paths.add(path);
+      } catch {
+        // Slugs that cannot form a URL have no page to revalidate
+      }
+    };
+    const { slug } = change;
+
+    switch (change.contentType) {
+      case 'blog': {
+        // Posts are prerendered once per locale
+        for (const detailSlug of await this.getDetailSlugs(change, (service) =>
+          service.getAllBlogPosts()
+        )) {
+          add(() =>
+            this.urlManager.generateLocalizedUrls((urls) =>
+              urls.generateBlogPostUrl({ slug: detailSlug })
+            )
+          );
+        }
+        await this.addArchivePages(paths, 'blog');
+        paths.add('/search-index.json');
+
+        const post = slug ? await this.contentService?.getBlogPost(slug) : null;
+        if (post) {
+          add(() => this.urlManager.generateCategoryUrl(post.category));
+          add(() => this.urlManager.generateAuthorUrl(post.author));
+          for (const tag of post.tags) {
+            const tagSlug = normalizeTagSlug(tag);
+            if (tagSlug) add(() => this.urlManager.generateTagUrl(tagSlug));
+          }
+        }
+        break;
+      }
+
+      case 'guide': {
+        for (const detailSlug of await this.getDetailSlugs(change, (service) =>
+          service.getAllGuides()
+        )) {
+          add(() =>
+            this.urlManager.generateLocalizedUrls((urls) =>
+              urls.generateGuideUrl({ slug: detailSlug })
+            )
+          );
+        }
+        await this.addArchivePages(paths, 'guides');
+        paths.add('/search-index.json');
+
+        const guide = slug ? await this.contentService?.getGuide(slug) : null;
+        if (guide) add(() => this.urlManager.generateCategoryUrl(guide.category));
+        break;
+      }
+
+      case 'category':
+        for (const detailSlug of await this.getDetailSlugs(change, (service) =>
+          service.getCategories()
+        )) {
+          add(() => this.urlManager.generateCategoryUrl({ slug: detailSlug }));
+        }
+        paths.add(this.urlManager.generateCategoriesUrl());
+        break;
+
+      case 'author':
+        for (const detailSlug of await this.getDetailSlugs(change, (service) =>
+          service.getAuthors()
+        )) {
+          add(() => this.urlManager.generateAuthorUrl({ slug: detailSlug }));
+        }
+        break;
+
+      case 'faq':
+        paths.add(this.urlManager.generateFaqUrl());
+        paths.add('/search-index.json');
+        break;
+    }
+
+    return { change, paths: [...paths].sort() };
+  }
+
+  // The published slug plus the one last built; unpublish and delete payloads carry no fields,
+  // so when neither is known every published detail page of the type is included instead
+  private async getDetailSlugs(
+    change: RevalidationChange,
+    listPublished: (service: ContentFetcher) => Promise<Array<{ slug: string }>>
+  ): Promise<string[]> {
+    const slugs = new Set(change.slug ? [change.slug] : []);
+    // A missing or unreadable snapshot only costs the old URL
+    const previousSlug = await this.previousSlug?.(change.entryId).catch(() => undefined);
+    if (previousSlug) slugs.add(previousSlug);
+
+    if (slugs.size > 0 || !this.contentService) return [...slugs];
+    return (await listPublished(this.contentService)).map((entry) => entry.slug);
+  }
+
+  // Every archive page can shift when an entry is added or removed
+  private async addArchivePages(paths: Set<string>, archive: 'blog' | 'guides'): Promise<void> {
+    let totalPages = 1;
+    if (this.contentService) {
+      const page =
+        archive === 'blog'
+          ? await this.contentService.getBlogPostsPage({ limit: 1 })
+          : await this.contentService.getGuidesPage({ limit: 1 });
+      // One extra page covers the page that disappears when an entry is removed
+      totalPages = getTotalPages(page.total) + 1;
+    }
+
+    for (let page = 1; page <= totalPages; page++) {
+      paths.add(this.urlManager.generateArchiveUrl(archive, page));
+    }
+  }
+}
+
+// Factory function to create a planner that resolves related pages through the content service
+export function createRevalidationPlanner(
+  contentService?: ContentFetcher,
+  previousSlug?: EntrySlugLookup
+): RevalidationPlanner {
+  return new RevalidationPlanner(createUrlPatternManager(), contentService, previousSlug);
+}
+
+/**
+ * Revalidation hook that POSTs the plan to a URL
+ * Works with deploy hooks (which ignore the body) and purge services that accept a path list
+ */
+export class HttpRevalidationHook implements RevalidationHook {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly token?: string,
+    private readonly fetchImpl: typeof fetch = fetch
+  ) {}
+
+  async trigger(plan: RevalidationPlan): Promise<void> {
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: JSON.stringify({
+        contentType: plan.change.contentType,
+        entryId: plan.change.entryId,
+        topic: plan.change.topic,
+        paths: plan.paths,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Revalidation hook responded with status ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Local stand-in used when no hook URL is configured
+ * Records and logs plans instead of rebuilding, so webhooks can be tested end to end
+ */
+export class LocalRevalidationHook implements RevalidationHook {
+  readonly name = 'local';
+  readonly triggered: RevalidationPlan[] = [];
+
+  async trigger(plan: RevalidationPlan): Promise<void> {
+    this.triggered.push(plan);
+    console.log('Revalidation requested (no REVALIDATE_HOOK_URL configured):', plan.paths);
+  }
+}
+
+// Factory function to create the configured revalidation hook
+export function createRevalidationHook(
+  env: Record<string, string | undefined> = process.env
+): RevalidationHook {
+  if (env.REVALIDATE_HOOK_URL) {
+    return new HttpRevalidationHook(env.REVALIDATE_HOOK_URL, env.REVALIDATE_HOOK_TOKEN);
+  }
+  return new LocalRevalidationHook();
+}
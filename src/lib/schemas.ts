@@ -1,7 +1,9 @@
 // Schema.org structured data generators
-// Implements Organization, WebSite, BlogPosting, HowTo, BreadcrumbList, and FAQPage schemas
+// Implements Organization, WebSite, BlogPosting, HowTo, BreadcrumbList, FAQPage, and ProfilePage schemas
 
-import type { BlogPost, FaqEntry, Guide } from './contentful.js';
+import { type ContentHeading, getPlainText } from './contentRenderer.js';
+import type { Author, BlogPost, FaqEntry, Guide } from './contentful.js';
+import { getLocaleConfig } from './locales.js';
 
 // Base schema interface
 interface BaseSchema {
@@ -24,6 +26,7 @@ interface OrganizationSchema extends BaseSchema {
 // WebSite schema interface
 interface WebSiteSchema extends BaseSchema {
   '@type': 'WebSite';
+  inLanguage: string;
   name: string;
   url: string;
   potentialAction?: {
@@ -39,6 +42,7 @@ interface WebSiteSchema extends BaseSchema {
 // BlogPosting schema interface
 interface BlogPostingSchema extends BaseSchema {
   '@type': 'BlogPosting';
+  inLanguage: string;
   headline: string;
   description: string;
   author: {
@@ -61,11 +65,23 @@ interface BlogPostingSchema extends BaseSchema {
   };
   articleSection?: string;
   keywords?: string[];
+  hasPart?: {
+    '@type': 'ItemList';
+    name: string;
+    numberOfItems: number;
+    itemListElement: Array<{
+      '@type': 'ListItem';
+      position: number;
+      name: string;
+      url: string;
+    }>;
+  };
 }
 
 // HowTo schema interface
 interface HowToSchema extends BaseSchema {
   '@type': 'HowTo';
+  inLanguage: string;
   name: string;
   description: string;
   image?: {
@@ -104,6 +120,7 @@ interface BreadcrumbListSchema extends BaseSchema {
 // FAQPage schema interface
 interface FAQPageSchema extends BaseSchema {
   '@type': 'FAQPage';
+  inLanguage: string;
   mainEntity: Array<{
     '@type': 'Question';
     name: string;
@@ -114,9 +131,42 @@ interface FAQPageSchema extends BaseSchema {
   }>;
 }
 
+// Person schema interface
+interface PersonSchema extends BaseSchema {
+  '@type': 'Person';
+  '@id': string;
+  name: string;
+  url: string;
+  description?: string;
+  image?: {
+    '@type': 'ImageObject';
+    url: string;
+  };
+  sameAs?: string[];
+}
+
+// ProfilePage schema interface
+interface ProfilePageSchema extends BaseSchema {
+  '@type': 'ProfilePage';
+  inLanguage: string;
+  url: string;
+  name: string;
+  dateCreated: string;
+  dateModified: string;
+  mainEntity: PersonSchema;
+  hasPart?: Array<{
+    '@type': 'BlogPosting';
+    headline: string;
+    url: string;
+    datePublished: string;
+  }>;
+}
+
 // Schema generator configuration
 interface SchemaConfig {
   siteUrl: string;
+  // BCP 47 code of the page language, e.g. `en-US`
+  language: string;
   siteName: string;
   organizationName: string;
   logoUrl?: string;
@@ -134,6 +184,12 @@ export class SchemaGenerator {
     this.config = config;
   }
 
+  // Contentful asset URLs are protocol-relative (`//images.ctfassets.net/...`)
+  private absoluteUrl(url: string): string {
+    if (url.startsWith('//')) return `https:${url}`;
+    return url.startsWith('http') ? url : `${this.config.siteUrl}${url}`;
+  }
+
   /**
    * Generate Organization schema
    * Used for establishing the website's organization identity
@@ -168,6 +224,7 @@ export class SchemaGenerator {
     return {
       '@context': 'https://schema.org',
       '@type': 'WebSite',
+      inLanguage: this.config.language,
       name: this.config.siteName,
       url: this.config.siteUrl,
       potentialAction: {
@@ -185,10 +242,15 @@ export class SchemaGenerator {
    * Generate BlogPosting schema for blog articles
    * Enables rich snippets for blog posts in search results
    */
-  generateBlogPostingSchema(post: BlogPost, canonicalUrl: string): BlogPostingSchema {
+  generateBlogPostingSchema(
+    post: BlogPost,
+    canonicalUrl: string,
+    tableOfContents: ContentHeading[] = []
+  ): BlogPostingSchema {
     const schema: BlogPostingSchema = {
       '@context': 'https://schema.org',
       '@type': 'BlogPosting',
+      inLanguage: this.config.language,
       headline: post.title,
       description: post.excerpt,
       author: {
@@ -213,9 +275,7 @@ export class SchemaGenerator {
     if (post.featuredImage) {
       schema.image = {
         '@type': 'ImageObject',
-        url: post.featuredImage.fields.file.url.startsWith('http')
-          ? post.featuredImage.fields.file.url
-          : `${this.config.siteUrl}${post.featuredImage.fields.file.url}`,
+        url: this.absoluteUrl(post.featuredImage.fields.file.url),
       };
 
       // Add image dimensions if available
@@ -235,6 +295,21 @@ export class SchemaGenerator {
       schema.keywords = post.tags;
     }
 
+    // Add table of contents so section links can surface as jump links
+    if (tableOfContents.length > 0) {
+      schema.hasPart = {
+        '@type': 'ItemList',
+        name: 'Table of Contents',
+        numberOfItems: tableOfContents.length,
+        itemListElement: tableOfContents.map((heading, index) => ({
+          '@type': 'ListItem',
+          position: index + 1,
+          name: heading.text,
+          url: `${canonicalUrl}#${heading.id}`,
+        })),
+      };
+    }
+
     return schema;
   }
 
@@ -246,22 +321,21 @@ export class SchemaGenerator {
     const schema: HowToSchema = {
       '@context': 'https://schema.org',
       '@type': 'HowTo',
+      inLanguage: this.config.language,
       name: guide.title,
       description: guide.description,
       step: guide.steps.map((step) => {
         const howToStep: HowToSchema['step'][0] = {
           '@type': 'HowToStep',
           name: step.title,
-          text: step.content,
+          text: getPlainText(step.content),
         };
 
         // Add step image if available
         if (step.image) {
           howToStep.image = {
             '@type': 'ImageObject',
-            url: step.image.fields.file.url.startsWith('http')
-              ? step.image.fields.file.url
-              : `${this.config.siteUrl}${step.image.fields.file.url}`,
+            url: this.absoluteUrl(step.image.fields.file.url),
           };
         }
 
@@ -273,9 +347,7 @@ export class SchemaGenerator {
     if (guide.featuredImage) {
       schema.image = {
         '@type': 'ImageObject',
-        url: guide.featuredImage.fields.file.url.startsWith('http')
-          ? guide.featuredImage.fields.file.url
-          : `${this.config.siteUrl}${guide.featuredImage.fields.file.url}`,
+        url: this.absoluteUrl(guide.featuredImage.fields.file.url),
       };
     }
 
@@ -306,11 +378,77 @@ export class SchemaGenerator {
         '@type': 'ListItem',
         position: index + 1,
         name: crumb.name,
-        item: crumb.url.startsWith('http') ? crumb.url : `${this.config.siteUrl}${crumb.url}`,
+        item: this.absoluteUrl(crumb.url),
       })),
     };
   }
 
+  /**
+   * Generate Person schema for an author
+   * Social profile links become sameAs so search engines can connect the identities
+   */
+  generatePersonSchema(author: Author, profileUrl: string): PersonSchema {
+    const schema: PersonSchema = {
+      '@context': 'https://schema.org',
+      '@type': 'Person',
+      '@id': `${profileUrl}#person`,
+      name: author.name,
+      url: profileUrl,
+    };
+
+    if (author.bio) {
+      schema.description = author.bio;
+    }
+
+    if (author.avatar) {
+      schema.image = {
+        '@type': 'ImageObject',
+        url: this.absoluteUrl(author.avatar.fields.file.url),
+      };
+    }
+
+    const sameAs = Object.values(author.socialLinks ?? {}).filter((link) =>
+      /^https?:\/\//.test(link)
+    );
+    if (sameAs.length > 0) {
+      schema.sameAs = sameAs;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Generate ProfilePage schema for author pages
+   * Wraps the Person schema and lists the author's posts as parts of the page
+   */
+  generateProfilePageSchema(
+    author: Author,
+    canonicalUrl: string,
+    posts: BlogPost[] = []
+  ): ProfilePageSchema {
+    const schema: ProfilePageSchema = {
+      '@context': 'https://schema.org',
+      '@type': 'ProfilePage',
+      inLanguage: this.config.language,
+      url: canonicalUrl,
+      name: author.name,
+      dateCreated: author.sys.createdAt,
+      dateModified: author.sys.updatedAt,
+      mainEntity: this.generatePersonSchema(author, canonicalUrl),
+    };
+
+    if (posts.length > 0) {
+      schema.hasPart = posts.map((post) => ({
+        '@type': 'BlogPosting',
+        headline: post.title,
+        url: `${this.config.siteUrl}/blog/${post.slug}`,
+        datePublished: post.publishedAt,
+      }));
+    }
+
+    return schema;
+  }
+
   /**
    * Generate FAQPage schema for FAQ content
    * Enables FAQ rich snippets in search results
@@ -319,6 +457,7 @@ export class SchemaGenerator {
     return {
       '@context': 'https://schema.org',
       '@type': 'FAQPage',
+      inLanguage: this.config.language,
       mainEntity: faqEntries.map((entry) => ({
         '@type': 'Question',
         name: entry.question,
@@ -333,11 +472,14 @@ export class SchemaGenerator {
 
 /**
  * Factory function to create SchemaGenerator with site configuration
- * Uses environment variables with fallbacks for development
+ * Uses environment variables with fallbacks for development; `language` defaults to the default locale
  */
-export function createSchemaGenerator(): SchemaGenerator {
+export function createSchemaGenerator(
+  language = getLocaleConfig().defaultLocale.code
+): SchemaGenerator {
   const config: SchemaConfig = {
     siteUrl: process.env.SITE_URL || 'http://localhost:4321',
+    language,
     siteName: 'Technical SEO CWV Astro Lab',
     organizationName: 'Technical SEO Lab',
     logoUrl: process.env.SITE_URL
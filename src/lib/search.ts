@@ -0,0 +1,393 @@
+// Content search shared by the /search page and the /api/search endpoint
+// Runs queries against the prebuilt search index and shapes results with highlight snippets
+
+import { escapeHtml } from './contentRenderer.js';
+import type { ContentFetcher, Guide } from './contentful.js';
+import { getTotalPages } from './pagination.js';
+import {
+  type SearchDocumentType,
+  type SearchIndex,
+  type SearchIndexMatch,
+  loadSearchIndex,
+  querySearchIndex,
+  tokenize,
+} from './searchIndex.js';
+import { normalizeTagSlug } from './tags.js';
+import {
+  SEARCH_FILTER_PARAMS,
+  type SearchFilterParam,
+  type UrlPatternManager,
+  createUrlPatternManager,
+} from './urlPatterns.js';
+
+// Queries shorter than this return no results
+export const MIN_QUERY_LENGTH = 2;
+
+// Default and maximum number of results returned by the API
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Results shown on each page of the /search route
+export const SEARCH_PAGE_SIZE = 10;
+
+// Result orderings; relevance is the default and is left out of URLs
+export const SEARCH_SORTS = ['relevance', 'date'] as const;
+export const DEFAULT_SEARCH_SORT = 'relevance';
+
+// Characters of context kept on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 60;
+
+const GUIDE_DIFFICULTIES: Guide['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+
+export type SearchResultType = SearchDocumentType;
+
+export const SEARCH_RESULT_TYPE_LABELS: Record<SearchResultType, string> = {
+  blog: 'Blog Post',
+  guide: 'Guide',
+  faq: 'FAQ',
+};
+
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export type SearchFacetName = SearchFilterParam;
+
+// Selected facet values keyed by facet; values are slugs
+export type SearchFilters = Partial<Record<SearchFacetName, string>>;
+
+// Stored fields that can carry highlight snippets
+export type SearchField = 'title' | 'keywords' | 'excerpt';
+
+export interface SearchHighlight {
+  field: SearchField;
+  // HTML-escaped text with matched terms wrapped in <mark>
+  snippet: string;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  title: string;
+  url: string;
+  excerpt: string;
+  category: string;
+  highlights: SearchHighlight[];
+  score: number;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+export type SearchFacets = Record<SearchFacetName, SearchFacetValue[]>;
+
+// Everything a search results URL can encode
+export interface SearchPageRequest {
+  query: string;
+  filters: SearchFilters;
+  sort: SearchSort;
+  page: number;
+}
+
+export interface FacetedSearchResults extends SearchPageRequest {
+  // Results on the requested page
+  results: SearchResult[];
+  // Matches left after filtering, across all pages
+  totalResults: number;
+  totalPages: number;
+  facets: SearchFacets;
+}
+
+type FacetValues = Record<SearchFacetName, Array<{ value: string; label: string }>>;
+
+/**
+ * Read query, filters, sort and page from search URL parameters
+ * Unknown sorts, types and difficulties are dropped and invalid pages fall back to page 1
+ */
+export function parseSearchRequest(searchParams: URLSearchParams): SearchPageRequest {
+  const filters: SearchFilters = {};
+  for (const name of SEARCH_FILTER_PARAMS) {
+    const value = searchParams.get(name)?.trim().toLowerCase();
+    if (value && isKnownFilterValue(name, value)) filters[name] = value;
+  }
+
+  const sortParam = searchParams.get('sort');
+  const sort = SEARCH_SORTS.find((candidate) => candidate === sortParam) ?? DEFAULT_SEARCH_SORT;
+  const page = Number(searchParams.get('page') ?? 1);
+
+  return {
+    query: (searchParams.get('q') || '').trim(),
+    filters,
+    sort,
+    page: Number.isInteger(page) && page >= 1 ? page : 1,
+  };
+}
+
+// Types and difficulties are closed sets; categories and tags are checked by matching
+function isKnownFilterValue(name: SearchFacetName, value: string): boolean {
+  switch (name) {
+    case 'type':
+      return Object.keys(SEARCH_RESULT_TYPE_LABELS).includes(value);
+    case 'difficulty':
+      return GUIDE_DIFFICULTIES.includes(value as Guide['difficulty']);
+    default:
+      return true;
+  }
+}
+
+function getFacetValues(document: SearchIndexMatch['document']): FacetValues {
+  const tags = new Map<string, string>();
+  for (const keyword of document.keywords) {
+    const slug = normalizeTagSlug(keyword);
+    if (slug && !tags.has(slug)) tags.set(slug, keyword);
+  }
+
+  return {
+    type: [{ value: document.type, label: SEARCH_RESULT_TYPE_LABELS[document.type] }],
+    category: document.categorySlug
+      ? [{ value: document.categorySlug, label: document.category }]
+      : [],
+    difficulty: document.difficulty
+      ? [
+          {
+            value: document.difficulty,
+            label: document.difficulty.charAt(0).toUpperCase() + document.difficulty.slice(1),
+          },
+        ]
+      : [],
+    tag: [...tags].map(([value, label]) => ({ value, label })),
+  };
+}
+
+// Check every active filter, optionally ignoring one facet for its own counts
+function matchesFilters(values: FacetValues, filters: SearchFilters, ignore?: SearchFacetName) {
+  return SEARCH_FILTER_PARAMS.every((name) => {
+    const selected = filters[name];
+    return !selected || name === ignore || values[name].some(({ value }) => value === selected);
+  });
+}
+
+/**
+ * Count facet values over matches
+ * Each facet is counted with the other facets' filters applied, so sibling values stay selectable
+ */
+function countFacets(values: FacetValues[], filters: SearchFilters): SearchFacets {
+  const facets = {} as SearchFacets;
+
+  for (const name of SEARCH_FILTER_PARAMS) {
+    const counts = new Map<string, { label: string; count: number }>();
+
+    for (const documentValues of values) {
+      if (!matchesFilters(documentValues, filters, name)) continue;
+
+      for (const { value, label } of documentValues[name]) {
+        const current = counts.get(value);
+        counts.set(value, { label: current?.label ?? label, count: (current?.count ?? 0) + 1 });
+      }
+    }
+
+    // A selected value stays visible even when nothing matches it
+    const selected = filters[name];
+    if (selected && !counts.has(selected)) {
+      counts.set(selected, { label: selected, count: 0 });
+    }
+
+    facets[name] = [...counts]
+      .map(([value, { label, count }]) => ({ value, label, count, selected: value === selected }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+
+  return facets;
+}
+
+/**
+ * Split a query into lowercase terms
+ * Uses the index tokenizer without stemming; duplicate terms are dropped
+ */
+export function tokenizeQuery(query: string): string[] {
+  return [...new Set(tokenize(query))];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build an HTML-safe snippet with every term occurrence wrapped in <mark>
+ * Long text is trimmed around the first match
+ */
+export function highlightText(text: string, terms: string[], context = SNIPPET_CONTEXT): string {
+  const lowerText = text.toLowerCase();
+  const firstMatch = Math.min(
+    ...terms.map((term) => lowerText.indexOf(term)).filter((index) => index >= 0)
+  );
+  if (!Number.isFinite(firstMatch)) return escapeHtml(text);
+
+  const start = Math.max(0, firstMatch - context);
+  const end = Math.min(text.length, firstMatch + context * 2);
+  const excerpt = text.slice(start, end);
+
+  // Marks run to the end of the word so stemmed terms highlight whole words
+  const pattern = new RegExp(`((?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+  const marked = excerpt
+    .split(pattern)
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+
+  return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+}
+
+// Search engine over the prebuilt index of posts, guides and FAQ entries
+export class ContentSearch {
+  constructor(private readonly urlManager: UrlPatternManager) {}
+
+  /**
+   * Search the index for every term in the query
+   * Ranking comes from the index; this shapes the top matches into results
+   */
+  search(query: string, index: SearchIndex, limit = DEFAULT_SEARCH_LIMIT): SearchResult[] {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      return [];
+    }
+
+    const queryTerms = tokenizeQuery(query);
+    return querySearchIndex(index, query)
+      .slice(0, limit)
+      .map((match) => this.toResult(match, queryTerms));
+  }
+
+  /**
+   * Load the prerendered index from the configured site and search it
+   * Used by SSR routes so queries never fetch content directly
+   */
+  async searchContent(
+    query: string,
+    contentService: ContentFetcher,
+    limit = DEFAULT_SEARCH_LIMIT
+  ): Promise<SearchResult[]> {
+    // Skip loading the index for queries that cannot match anything
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      return [];
+    }
+
+    const index = await loadSearchIndex(contentService, this.urlManager);
+    return this.search(query, index, limit);
+  }
+
+  /**
+   * Filter, sort and paginate matches for one search results page
+   * Facet counts cover all matches for the query, not just the current page
+   */
+  facetedSearch(
+    request: SearchPageRequest,
+    index: SearchIndex,
+    pageSize = SEARCH_PAGE_SIZE
+  ): FacetedSearchResults {
+    const matches =
+      request.query.length < MIN_QUERY_LENGTH ? [] : querySearchIndex(index, request.query);
+    return this.toResultsPage(request, matches, pageSize);
+  }
+
+  /**
+   * Load the prerendered index and run a faceted search against it
+   */
+  async facetedSearchContent(
+    request: SearchPageRequest,
+    contentService: ContentFetcher,
+    pageSize = SEARCH_PAGE_SIZE
+  ): Promise<FacetedSearchResults> {
+    // Skip loading the index for queries that cannot match anything
+    if (request.query.length < MIN_QUERY_LENGTH) {
+      return this.toResultsPage(request, [], pageSize);
+    }
+
+    const index = await loadSearchIndex(contentService, this.urlManager);
+    return this.facetedSearch(request, index, pageSize);
+  }
+
+  /**
+   * Generate the URL of a search results page, applying changes to the current request
+   * The default sort is omitted to keep one URL per distinct search
+   */
+  generatePageUrl(
+    request: SearchPageRequest,
+    changes: Partial<SearchPageRequest> = {},
+    absolute = false
+  ): string {
+    const { query, filters, sort, page } = { ...request, ...changes };
+
+    return this.urlManager.generateSearchPageUrl(
+      { query, filters, sort: sort === DEFAULT_SEARCH_SORT ? undefined : sort, page },
+      absolute
+    );
+  }
+
+  private toResultsPage(
+    request: SearchPageRequest,
+    matches: SearchIndexMatch[],
+    pageSize: number
+  ): FacetedSearchResults {
+    const entries = matches.map((match) => ({ match, values: getFacetValues(match.document) }));
+    const filtered = entries.filter(({ values }) => matchesFilters(values, request.filters));
+
+    // Matches arrive in relevance order
+    const sorted =
+      request.sort === 'date'
+        ? [...filtered].sort(
+            (a, b) =>
+              new Date(b.match.document.publishedAt).getTime() -
+                new Date(a.match.document.publishedAt).getTime() || b.match.score - a.match.score
+          )
+        : filtered;
+
+    const startIndex = (request.page - 1) * pageSize;
+    const queryTerms = tokenizeQuery(request.query);
+
+    return {
+      ...request,
+      results: sorted
+        .slice(startIndex, startIndex + pageSize)
+        .map(({ match }) => this.toResult(match, queryTerms)),
+      totalResults: filtered.length,
+      totalPages: getTotalPages(filtered.length, pageSize),
+      facets: countFacets(
+        entries.map(({ values }) => values),
+        request.filters
+      ),
+    };
+  }
+
+  private toResult(match: SearchIndexMatch, queryTerms: string[]): SearchResult {
+    const { document } = match;
+    // Stems and typo matches are highlighted alongside the words that were typed
+    const terms = [...new Set([...queryTerms, ...match.matchedTerms])];
+    const fields: Record<SearchField, string> = {
+      title: document.title,
+      keywords: document.keywords.join(', '),
+      excerpt: document.excerpt,
+    };
+
+    return {
+      type: document.type,
+      title: document.title,
+      url: document.url,
+      excerpt: document.excerpt,
+      category: document.category,
+      highlights: (Object.keys(fields) as SearchField[])
+        .filter((field) => terms.some((term) => fields[field].toLowerCase().includes(term)))
+        .map((field) => ({
+          field,
+          snippet: highlightText(fields[field], terms),
+        })),
+      score: match.score,
+    };
+  }
+}
+
+/**
+ * Factory function to create ContentSearch with the site URL patterns
+ */
+export function createContentSearch(): ContentSearch {
+  return new ContentSearch(createUrlPatternManager());
+}
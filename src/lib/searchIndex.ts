@@ -0,0 +1,490 @@
+// Build-time inverted search index over posts, guides and FAQ entries
+// Prerendered to /search-index.json so search never queries Contentful per request
+
+import { getPlainText } from './contentRenderer.js';
+import type { BlogPost, ContentFetcher, FaqEntry, Guide } from './contentful.js';
+import { normalizeTagSlug } from './tags.js';
+import { type UrlPatternManager, createUrlPatternManager } from './urlPatterns.js';
+
+// Bumped whenever the serialized index shape changes
+export const SEARCH_INDEX_VERSION = 2;
+
+// Public path of the prerendered index artifact
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+// Weight of a single term occurrence in each indexed field
+export const INDEX_FIELD_WEIGHTS = {
+  title: 10,
+  tags: 5,
+  excerpt: 3,
+  body: 1,
+} as const;
+
+// Score multiplier for each way a query term can match an indexed term
+export const MATCH_MULTIPLIERS = {
+  exact: 1,
+  prefix: 0.6,
+  typo: 0.4,
+} as const;
+
+// Query terms need this many characters before prefix or typo matching applies
+const MIN_PREFIX_LENGTH = 3;
+const MIN_TYPO_LENGTH = 4;
+
+// Terms at least this long tolerate two edits instead of one
+const LONG_TERM_LENGTH = 8;
+
+// Characters of answer text shown as the excerpt of FAQ results
+const FAQ_EXCERPT_LENGTH = 160;
+
+// How long a loaded index is reused by SSR routes before it is fetched again
+const INDEX_CACHE_TTL_MS = 5 * 60 * 1000;
+const INDEX_FETCH_TIMEOUT_MS = 3000;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+]);
+
+export type SearchIndexField = keyof typeof INDEX_FIELD_WEIGHTS;
+
+export type SearchDocumentType = 'blog' | 'guide' | 'faq';
+
+export type TermMatchKind = keyof typeof MATCH_MULTIPLIERS;
+
+export interface SearchIndexDocument {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  url: string;
+  excerpt: string;
+  category: string;
+  categorySlug: string;
+  keywords: string[];
+  // Only set on guides
+  difficulty?: Guide['difficulty'];
+  publishedAt: string;
+}
+
+// [document position, weighted term score] pairs keep the artifact compact
+export type SearchPosting = [number, number];
+
+export interface SearchIndex {
+  version: number;
+  generatedAt: string;
+  documents: SearchIndexDocument[];
+  terms: Record<string, SearchPosting[]>;
+}
+
+export interface SearchIndexSource {
+  blogPosts: BlogPost[];
+  guides: Guide[];
+  faqEntries: FaqEntry[];
+}
+
+export interface SearchIndexMatch {
+  document: SearchIndexDocument;
+  score: number;
+  // Indexed terms that satisfied the query, used for highlighting
+  matchedTerms: string[];
+}
+
+interface IndexableDocument {
+  document: SearchIndexDocument;
+  fields: Record<SearchIndexField, string>;
+}
+
+/**
+ * Split text into lowercase, diacritic-free words
+ * Stop words are dropped; terms are not stemmed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Reduce a word to its stem with a light suffix-stripping stemmer
+ * Inflections such as "optimizing", "optimized" and "optimization" share one stem
+ */
+export function stemToken(token: string): string {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let stem = token;
+  const replacements: Array<[RegExp, string]> = [
+    [/izations?$/, 'ize'],
+    [/ations?$/, 'ate'],
+    [/fulness$/, 'ful'],
+    [/iveness$/, 'ive'],
+    [/(.{3,})ness$/, '$1'],
+    [/(.{2,})ies$/, '$1y'],
+    [/(.{2,})ied$/, '$1y'],
+    [/sses$/, 'ss'],
+    // Verb endings only strip when a vowel remains ("string" and "speed" stay whole)
+    [/^(.*[aeiouy].*)ing$/, '$1'],
+    [/^(.*[aeiouy].*[^e])ed$/, '$1'],
+    [/([^isu])s$/, '$1'],
+  ];
+
+  for (const [pattern, replacement] of replacements) {
+    if (pattern.test(stem)) {
+      stem = stem.replace(pattern, replacement);
+      break;
+    }
+  }
+
+  // "running" -> "runn" -> "run"
+  if (/([^aeioulsz])\1$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // "cache", "caches" and "cached" all end up as "cach"
+  if (stem.length > 4 && stem.endsWith('e')) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Tokenize and stem text the same way for indexing and querying
+ */
+export function analyzeText(text: string): string[] {
+  return tokenize(text).map(stemToken);
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent transpositions
+ * Stops early and returns maxDistance + 1 once the distance is known to exceed maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance = Number.POSITIVE_INFINITY): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    let rowMinimum = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1);
+      }
+
+      nextRow.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousRow = row;
+    row = nextRow;
+  }
+
+  return Math.min(row[b.length], maxDistance + 1);
+}
+
+function toIndexableDocuments(
+  source: SearchIndexSource,
+  urlManager: UrlPatternManager
+): IndexableDocument[] {
+  // Same anchors as the FAQ page, so results land on the right question
+  const faqAnchors = urlManager.generateFaqAnchors(source.faqEntries);
+
+  return [
+    ...source.blogPosts.map((post) => ({
+      document: {
+        id: `blog:${post.slug}`,
+        type: 'blog' as const,
+        title: post.title,
+        url: urlManager.generateBlogPostUrl(post),
+        excerpt: post.excerpt,
+        category: post.category.name,
+        categorySlug: post.category.slug,
+        keywords: post.tags,
+        publishedAt: post.publishedAt,
+      },
+      fields: {
+        title: post.title,
+        tags: post.tags.join(' '),
+        excerpt: post.excerpt,
+        body: getPlainText(post.content),
+      },
+    })),
+    ...source.guides.map((guide) => ({
+      document: {
+        id: `guide:${guide.slug}`,
+        type: 'guide' as const,
+        title: guide.title,
+        url: urlManager.generateGuideUrl(guide),
+        excerpt: guide.description,
+        category: guide.category.name,
+        categorySlug: guide.category.slug,
+        keywords: guide.tools,
+        difficulty: guide.difficulty,
+        publishedAt: guide.publishedAt,
+      },
+      fields: {
+        title: guide.title,
+        tags: guide.tools.join(' '),
+        excerpt: guide.description,
+        body: [
+          getPlainText(guide.content),
+          ...guide.steps.map((step) => `${step.title} ${getPlainText(step.content)}`),
+        ].join(' '),
+      },
+    })),
+    ...source.faqEntries.map((entry) => {
+      const answer = getPlainText(entry.answer);
+      return {
+        document: {
+          id: `faq:${entry.sys.id}`,
+          type: 'faq' as const,
+          title: entry.question,
+          url: urlManager.generateFaqEntryUrl(entry, faqAnchors),
+          excerpt:
+            answer.length > FAQ_EXCERPT_LENGTH
+              ? `${answer.slice(0, FAQ_EXCERPT_LENGTH).trimEnd()}…`
+              : answer,
+          category: entry.category,
+          // FAQ categories are plain labels rather than linked Category entries
+          categorySlug: normalizeTagSlug(entry.category) ?? '',
+          keywords: [],
+          publishedAt: entry.sys.createdAt,
+        },
+        fields: {
+          title: entry.question,
+          tags: '',
+          excerpt: '',
+          body: answer,
+        },
+      };
+    }),
+  ];
+}
+
+/**
+ * Build the inverted index from every post, guide and FAQ entry
+ * Term scores sum field weights with log-damped term frequency so long bodies cannot outrank titles
+ */
+export function buildSearchIndex(
+  source: SearchIndexSource,
+  urlManager: UrlPatternManager = createUrlPatternManager(),
+  generatedAt = new Date().toISOString()
+): SearchIndex {
+  const indexable = toIndexableDocuments(source, urlManager);
+  const postings = new Map<string, SearchPosting[]>();
+
+  indexable.forEach(({ fields }, position) => {
+    const termScores = new Map<string, number>();
+
+    for (const field of Object.keys(INDEX_FIELD_WEIGHTS) as SearchIndexField[]) {
+      const frequencies = new Map<string, number>();
+      for (const term of analyzeText(fields[field])) {
+        frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      }
+
+      for (const [term, frequency] of frequencies) {
+        const fieldScore = INDEX_FIELD_WEIGHTS[field] * (1 + Math.log(frequency));
+        termScores.set(term, (termScores.get(term) ?? 0) + fieldScore);
+      }
+    }
+
+    for (const [term, score] of termScores) {
+      const termPostings = postings.get(term) ?? [];
+      termPostings.push([position, Math.round(score * 100) / 100]);
+      postings.set(term, termPostings);
+    }
+  });
+
+  // Sorted keys keep the artifact stable between builds with unchanged content
+  const terms: Record<string, SearchPosting[]> = {};
+  for (const term of [...postings.keys()].sort()) {
+    terms[term] = postings.get(term) ?? [];
+  }
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    generatedAt,
+    documents: indexable.map(({ document }) => document),
+    terms,
+  };
+}
+
+/**
+ * Create an index with no documents
+ * Used when content cannot be loaded so search degrades to no results
+ */
+export function createEmptySearchIndex(): SearchIndex {
+  return buildSearchIndex({ blogPosts: [], guides: [], faqEntries: [] });
+}
+
+// Find every indexed term a query term can match, keeping the best match kind per term
+function expandQueryTerm(
+  queryTerm: string,
+  vocabulary: string[]
+): Array<{ term: string; kind: TermMatchKind }> {
+  const maxTypos = queryTerm.length >= LONG_TERM_LENGTH ? 2 : 1;
+
+  return vocabulary.flatMap((term): Array<{ term: string; kind: TermMatchKind }> => {
+    if (term === queryTerm) {
+      return [{ term, kind: 'exact' }];
+    }
+    if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) {
+      return [{ term, kind: 'prefix' }];
+    }
+    if (
+      queryTerm.length >= MIN_TYPO_LENGTH &&
+      editDistance(queryTerm, term, maxTypos) <= maxTypos
+    ) {
+      return [{ term, kind: 'typo' }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Query the index, requiring every query term to match each returned document
+ * Terms match exactly, by prefix or within a small edit distance; results are ranked by score, then recency
+ */
+export function querySearchIndex(index: SearchIndex, query: string): SearchIndexMatch[] {
+  const queryTerms = [...new Set(analyzeText(query))];
+  if (queryTerms.length === 0) return [];
+
+  const vocabulary = Object.keys(index.terms);
+  let candidates: Map<number, { score: number; matchedTerms: Set<string> }> | null = null;
+
+  for (const queryTerm of queryTerms) {
+    // Best scoring indexed term per document for this query term
+    const termMatches = new Map<number, { score: number; term: string }>();
+
+    for (const { term, kind } of expandQueryTerm(queryTerm, vocabulary)) {
+      for (const [position, weight] of index.terms[term]) {
+        const score = weight * MATCH_MULTIPLIERS[kind];
+        const current = termMatches.get(position);
+        if (!current || score > current.score) {
+          termMatches.set(position, { score, term });
+        }
+      }
+    }
+
+    const nextCandidates = new Map<number, { score: number; matchedTerms: Set<string> }>();
+    for (const [position, match] of termMatches) {
+      const previous = candidates
+        ? candidates.get(position)
+        : { score: 0, matchedTerms: new Set<string>() };
+      if (!previous) continue;
+
+      nextCandidates.set(position, {
+        score: previous.score + match.score,
+        matchedTerms: new Set([...previous.matchedTerms, match.term]),
+      });
+    }
+
+    candidates = nextCandidates;
+    if (candidates.size === 0) return [];
+  }
+
+  return [...(candidates ?? new Map())]
+    .map(([position, { score, matchedTerms }]) => ({
+      document: index.documents[position],
+      score: Math.round(score * 100) / 100,
+      matchedTerms: [...matchedTerms],
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.document.publishedAt).getTime() - new Date(a.document.publishedAt).getTime() ||
+        a.document.url.localeCompare(b.document.url)
+    );
+}
+
+// Type guard for index payloads read back from /search-index.json
+export function isSearchIndex(value: unknown): value is SearchIndex {
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as Partial<SearchIndex>;
+  return (
+    candidate.version === SEARCH_INDEX_VERSION &&
+    Array.isArray(candidate.documents) &&
+    typeof candidate.terms === 'object' &&
+    candidate.terms !== null
+  );
+}
+
+/**
+ * Fetch all published content that goes into the index
+ */
+export async function fetchSearchIndexSource(
+  contentService: ContentFetcher
+): Promise<SearchIndexSource> {
+  const [blogPosts, guides, faqEntries] = await Promise.all([
+    contentService.getAllBlogPosts(false),
+    contentService.getAllGuides(false),
+    contentService.getFaqEntries(false),
+  ]);
+
+  return { blogPosts, guides, faqEntries };
+}
+
+let cachedIndex: { index: SearchIndex; expiresAt: number } | null = null;
+
+/**
+ * Load the prerendered index for SSR routes, caching it per server instance
+ * The artifact is read from the configured site URL, never from the request's Host header,
+ * since the cached index is shared by every visitor
+ * Falls back to building the index from the content service when the artifact is unavailable
+ */
+export async function loadSearchIndex(
+  contentService: ContentFetcher,
+  urlManager: UrlPatternManager = createUrlPatternManager()
+): Promise<SearchIndex> {
+  if (cachedIndex && cachedIndex.expiresAt > Date.now()) {
+    return cachedIndex.index;
+  }
+
+  let index: SearchIndex | null = null;
+
+  try {
+    const response = await fetch(new URL(SEARCH_INDEX_PATH, urlManager.generateHomepageUrl(true)), {
+      signal: AbortSignal.timeout(INDEX_FETCH_TIMEOUT_MS),
+    });
+    const payload: unknown = response.ok ? await response.json() : null;
+    index = isSearchIndex(payload) ? payload : null;
+  } catch (error) {
+    console.warn('Search index artifact unavailable, building from content:', error);
+  }
+
+  if (!index) {
+    index = buildSearchIndex(await fetchSearchIndexSource(contentService), urlManager);
+  }
+
+  cachedIndex = { index, expiresAt: Date.now() + INDEX_CACHE_TTL_MS };
+  return index;
+}
@@ -1,13 +1,30 @@
 // Sitemap generation utilities and shared logic
 // Implements shared functionality for XML sitemap generation
 
+import type { ContentfulAsset } from './contentful.js';
+import type { AlternateUrl } from './locales.js';
+
 export interface SitemapEntry {
   url: string;
   lastmod?: string;
   changefreq?: 'always' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'never';
   priority?: number;
+  // The same page in every language, including this one, as xhtml:link elements
+  alternates?: AlternateUrl[];
+  // Images shown on the page, as image:image elements
+  images?: SitemapImage[];
+}
+
+export interface SitemapImage {
+  // Absolute URL of the image file
+  loc: string;
+  title?: string;
+  caption?: string;
 }
 
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const IMAGE_NAMESPACE = 'http://www.google.com/schemas/sitemap-image/1.1';
+
 export interface SitemapIndex {
   sitemap: string;
   lastmod?: string;
@@ -82,10 +99,52 @@ export function generateSitemapEntry(entry: SitemapEntry): string {
     xml += `    <priority>${entry.priority.toFixed(1)}</priority>\n`;
   }
 
+  // The sitemap schema only allows extension elements after the core ones
+  for (const alternate of entry.alternates ?? []) {
+    const hreflang = escapeXml(alternate.hreflang);
+    xml += `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(alternate.url)}"/>\n`;
+  }
+
+  for (const image of entry.images ?? []) {
+    xml += '    <image:image>\n';
+    xml += `      <image:loc>${escapeXml(image.loc)}</image:loc>\n`;
+    if (image.title) {
+      xml += `      <image:title>${escapeXml(image.title)}</image:title>\n`;
+    }
+    if (image.caption) {
+      xml += `      <image:caption>${escapeXml(image.caption)}</image:caption>\n`;
+    }
+    xml += '    </image:image>\n';
+  }
+
   xml += '  </url>\n';
   return xml;
 }
 
+/**
+ * Builds image entries from the Contentful assets shown on a page
+ * Skips missing assets and repeated files, and makes protocol-relative asset URLs absolute
+ */
+export function generateSitemapImages(assets: (ContentfulAsset | undefined)[]): SitemapImage[] {
+  const images = new Map<string, SitemapImage>();
+
+  for (const asset of assets) {
+    const url = asset?.fields.file?.url;
+    if (!url) continue;
+
+    const loc = url.startsWith('//') ? `https:${url}` : url;
+    if (images.has(loc) || !validateSitemapUrl(loc)) continue;
+
+    images.set(loc, {
+      loc,
+      title: asset.fields.title || undefined,
+      caption: asset.fields.description || undefined,
+    });
+  }
+
+  return [...images.values()];
+}
+
 /**
  * Generates XML for a sitemap index entry
  * Creates properly formatted <sitemap> element for sitemap index
@@ -105,10 +164,17 @@ export function generateSitemapIndexEntry(entry: SitemapIndex): string {
 /**
  * Generates complete XML sitemap with proper headers and structure
  * Takes array of sitemap entries and returns complete XML document
+ * The xhtml and image namespaces are only declared when an entry uses them
  */
 export function generateSitemapXml(entries: SitemapEntry[]): string {
+  const hasAlternates = entries.some((entry) => entry.alternates?.length);
+  const hasImages = entries.some((entry) => entry.images?.length);
+
   let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
-  xml += '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n';
+  xml += '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"';
+  xml += hasAlternates ? ` xmlns:xhtml="${XHTML_NAMESPACE}"` : '';
+  xml += hasImages ? ` xmlns:image="${IMAGE_NAMESPACE}"` : '';
+  xml += '>\n';
 
   for (const entry of entries) {
     xml += generateSitemapEntry(entry);
@@ -170,3 +236,43 @@ export function shouldIncludeInSitemap(url: string): boolean {
 
   return !excludePatterns.some((pattern) => url.includes(pattern));
 }
+
+/**
+ * What a sitemap route does when its content cannot be fetched
+ * 'fail' aborts the build; 'fallback' ships the route's fallback sitemap instead
+ */
+export type SitemapErrorPolicy = 'fail' | 'fallback';
+
+/**
+ * Reads SITEMAP_ERROR_POLICY, failing by default so an outage never deploys empty sitemaps
+ */
+export function getSitemapErrorPolicy(
+  env: Record<string, string | undefined> = process.env
+): SitemapErrorPolicy {
+  return env.SITEMAP_ERROR_POLICY === 'fallback' ? 'fallback' : 'fail';
+}
+
+/**
+ * Applies the sitemap error policy to a failed sitemap route
+ * Throws so the build fails, or returns the fallback entries with a short cache lifetime
+ */
+export function handleSitemapError(
+  sitemap: string,
+  error: unknown,
+  fallbackEntries: SitemapEntry[] = [],
+  policy: SitemapErrorPolicy = getSitemapErrorPolicy()
+): Response {
+  console.error(`Error generating ${sitemap} sitemap:`, error);
+
+  if (policy === 'fail') {
+    throw new Error(`Failed to generate ${sitemap} sitemap`, { cause: error });
+  }
+
+  return new Response(generateSitemapXml(fallbackEntries), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=300', // Shorter cache on error
+    },
+  });
+}
@@ -0,0 +1,64 @@
+// Tag archive utilities
+// Groups free-form post tags under normalized slugs for tag pages and the tags sitemap
+
+import type { BlogPost } from './contentful.js';
+import { validateContentSlug } from './urlPatterns.js';
+
+// Tags with fewer posts than this are rendered but kept out of the index and sitemap
+export const DEFAULT_TAG_INDEX_THRESHOLD = 2;
+
+export interface TagArchive {
+  slug: string;
+  // Display name, taken from the first post that uses the tag
+  name: string;
+  posts: BlogPost[];
+}
+
+/**
+ * Get the minimum number of posts a tag page needs to be indexed
+ * Configurable through TAG_INDEX_THRESHOLD, falling back to the default
+ */
+export function getTagIndexThreshold(): number {
+  const configured = Number.parseInt(process.env.TAG_INDEX_THRESHOLD || '', 10);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_TAG_INDEX_THRESHOLD;
+}
+
+/**
+ * Normalize a raw tag into its URL slug
+ * Returns null for tags that cannot form a valid slug, such as very short tags
+ */
+export function normalizeTagSlug(tag: string): string | null {
+  const result = validateContentSlug(tag);
+  return result.isValid && result.formatted ? result.formatted : null;
+}
+
+/**
+ * Check whether a tag page has enough posts to be indexed
+ * Thin tag pages would otherwise compete with the posts they list
+ */
+export function isTagIndexable(postCount: number, threshold = getTagIndexThreshold()): boolean {
+  return postCount >= threshold;
+}
+
+/**
+ * Group posts by normalized tag slug
+ * Tags differing only in case or separators share one archive; posts keep their order
+ */
+export function groupPostsByTag(posts: BlogPost[]): TagArchive[] {
+  const archives = new Map<string, TagArchive>();
+
+  for (const post of posts) {
+    for (const tag of post.tags) {
+      const slug = normalizeTagSlug(tag);
+      if (!slug) continue;
+
+      const archive = archives.get(slug) ?? { slug, name: tag, posts: [] };
+      if (!archive.posts.includes(post)) {
+        archive.posts.push(post);
+      }
+      archives.set(slug, archive);
+    }
+  }
+
+  return [...archives.values()].sort((a, b) => a.slug.localeCompare(b.slug));
+}
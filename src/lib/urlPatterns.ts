@@ -1,17 +1,35 @@
 // URL pattern consistency and generation utilities
 // Implements consistent URL generation and validation for all content types
 
-import type { BlogPost, Guide, Category } from './contentful.js';
+import { type AnchorRegistry, claimAnchorId, slugifyHeading } from './contentRenderer.js';
+import type { Author, BlogPost, Category, FaqEntry, Guide } from './contentful.js';
+import {
+  type AlternateUrl,
+  DEFAULT_LOCALE_CODE,
+  type LocaleConfig,
+  type SiteLocale,
+  createLocaleConfig,
+  findLocale,
+  getLocaleConfig,
+  localizePath,
+} from './locales.js';
+import { type PreviewContentType, previewRequiresSlug } from './preview.js';
 
 // Content type URL patterns
 export const URL_PATTERNS = {
   blog: '/blog/[slug]',
   guide: '/guides/[slug]',
   category: '/category/[slug]',
+  categories: '/categories',
+  blogArchive: '/blog/page/[page]',
+  guideArchive: '/guides/page/[page]',
+  author: '/author/[slug]',
+  tag: '/tag/[slug]',
   faq: '/faq',
   homepage: '/',
   search: '/search',
   preview: '/preview/[type]/[slug]',
+  previewFaq: '/preview/faq',
   api: '/api/[endpoint]',
 } as const;
 
@@ -35,12 +53,29 @@ export type UrlContentType =
   | 'blog'
   | 'guide'
   | 'category'
+  | 'author'
+  | 'tag'
   | 'faq'
   | 'homepage'
   | 'search'
   | 'preview'
   | 'api';
 
+// Paginated archive listings
+export type ArchiveType = 'blog' | 'guides';
+
+// Search filter parameters, in the order they appear in search URLs
+export const SEARCH_FILTER_PARAMS = ['type', 'category', 'difficulty', 'tag'] as const;
+
+export type SearchFilterParam = (typeof SEARCH_FILTER_PARAMS)[number];
+
+export interface SearchUrlParams {
+  query?: string;
+  filters?: Partial<Record<SearchFilterParam, string>>;
+  sort?: string;
+  page?: number;
+}
+
 /**
  * URL pattern generator and validator
  * Implements single responsibility principle for URL management
@@ -48,40 +83,123 @@ export type UrlContentType =
 export class UrlPatternManager {
   private readonly baseUrl: string;
 
-  constructor(baseUrl: string) {
+  constructor(
+    baseUrl: string,
+    private readonly locales: LocaleConfig = createLocaleConfig([DEFAULT_LOCALE_CODE]),
+    readonly locale: SiteLocale = locales.defaultLocale
+  ) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
   }
 
+  /**
+   * Get a manager generating URLs for another configured locale
+   */
+  forLocale(code: string): UrlPatternManager {
+    const locale = findLocale(this.locales, code);
+    if (!locale) {
+      throw new Error(`Unknown locale: ${code}`);
+    }
+    return new UrlPatternManager(this.baseUrl, this.locales, locale);
+  }
+
+  // Blog posts and guides are the only pages with locale-prefixed routes
+  private generateLocalizedUrl(path: string, absolute: boolean): string {
+    const localizedPath = localizePath(path, this.locale);
+    return absolute ? `${this.baseUrl}${localizedPath}` : localizedPath;
+  }
+
   /**
    * Generate URL for blog post content type
-   * Ensures consistent /blog/[slug] pattern
+   * Ensures consistent /blog/[slug] pattern, prefixed with the locale outside the default one
    */
-  generateBlogPostUrl(post: BlogPost, absolute = false): string {
+  generateBlogPostUrl(post: Pick<BlogPost, 'slug'>, absolute = false): string {
     const validatedSlug = this.validateAndFormatSlug(post.slug);
-    const path = `/blog/${validatedSlug}`;
-    return absolute ? `${this.baseUrl}${path}` : path;
+    return this.generateLocalizedUrl(`/blog/${validatedSlug}`, absolute);
   }
 
   /**
    * Generate URL for guide content type
-   * Ensures consistent /guides/[slug] pattern
+   * Ensures consistent /guides/[slug] pattern, prefixed with the locale outside the default one
    */
-  generateGuideUrl(guide: Guide, absolute = false): string {
+  generateGuideUrl(guide: Pick<Guide, 'slug'>, absolute = false): string {
     const validatedSlug = this.validateAndFormatSlug(guide.slug);
-    const path = `/guides/${validatedSlug}`;
-    return absolute ? `${this.baseUrl}${path}` : path;
+    return this.generateLocalizedUrl(`/guides/${validatedSlug}`, absolute);
+  }
+
+  /**
+   * Generate the URL of a page in every configured locale, default locale first
+   */
+  generateLocalizedUrls(generate: (urlManager: UrlPatternManager) => string): string[] {
+    return this.locales.locales.map((locale) => generate(this.forLocale(locale.code)));
+  }
+
+  /**
+   * Generate hreflang alternates for a page, with x-default pointing at the default locale
+   * Single-locale sites get none, since a page has no other language to point to
+   */
+  generateAlternateUrls(generate: (urlManager: UrlPatternManager) => string): AlternateUrl[] {
+    if (this.locales.locales.length < 2) return [];
+
+    const urls = this.generateLocalizedUrls(generate);
+    return [
+      ...this.locales.locales.map((locale, index) => ({ hreflang: locale.code, url: urls[index] })),
+      { hreflang: 'x-default', url: urls[0] },
+    ];
   }
 
   /**
    * Generate URL for category content type
    * Ensures consistent /category/[slug] pattern
    */
-  generateCategoryUrl(category: Category, absolute = false): string {
+  generateCategoryUrl(category: Pick<Category, 'slug'>, absolute = false): string {
     const validatedSlug = this.validateAndFormatSlug(category.slug);
     const path = `/category/${validatedSlug}`;
     return absolute ? `${this.baseUrl}${path}` : path;
   }
 
+  /**
+   * Generate URL for the categories hub
+   * Ensures consistent /categories pattern
+   */
+  generateCategoriesUrl(absolute = false): string {
+    const path = '/categories';
+    return absolute ? `${this.baseUrl}${path}` : path;
+  }
+
+  /**
+   * Generate URL for paginated blog and guide archives
+   * Page 1 is the archive root; later pages use /[archive]/page/[page]
+   */
+  generateArchiveUrl(archive: ArchiveType, page = 1, absolute = false): string {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error(`Invalid archive page: ${page}`);
+    }
+
+    const basePath = `/${archive}`;
+    const path = page === 1 ? basePath : `${basePath}/page/${page}`;
+    return absolute ? `${this.baseUrl}${path}` : path;
+  }
+
+  /**
+   * Generate URL for tag archive pages
+   * Raw tags are normalized into the /tag/[slug] pattern
+   */
+  generateTagUrl(tag: string, absolute = false): string {
+    const validatedSlug = this.validateAndFormatSlug(tag);
+    const path = `/tag/${validatedSlug}`;
+    return absolute ? `${this.baseUrl}${path}` : path;
+  }
+
+  /**
+   * Generate URL for author profile pages
+   * Ensures consistent /author/[slug] pattern
+   */
+  generateAuthorUrl(author: Pick<Author, 'slug'>, absolute = false): string {
+    const validatedSlug = this.validateAndFormatSlug(author.slug);
+    const path = `/author/${validatedSlug}`;
+    return absolute ? `${this.baseUrl}${path}` : path;
+  }
+
   /**
    * Generate URL for FAQ page
    * Ensures consistent /faq pattern
@@ -91,6 +209,46 @@ export class UrlPatternManager {
     return absolute ? `${this.baseUrl}${path}` : path;
   }
 
+  /**
+   * Generate anchor ID for a FAQ question
+   * Derived from the question text so deep links survive reordering and new entries
+   */
+  generateFaqAnchor(entry: Pick<FaqEntry, 'question'>): string {
+    return `faq-${slugifyHeading(entry.question, 'question')}`;
+  }
+
+  /**
+   * Generate unique anchor IDs for a set of FAQ entries, keyed by entry ID
+   * Questions with the same slug get a numeric suffix; the oldest entry keeps the plain anchor
+   * so adding a similar question never moves an existing deep link
+   */
+  generateFaqAnchors(entries: Pick<FaqEntry, 'sys' | 'question'>[]): Map<string, string> {
+    const anchors = new Map<string, string>();
+    const anchorIds: AnchorRegistry = new Map();
+    const oldestFirst = [...entries].sort(
+      (a, b) => a.sys.createdAt.localeCompare(b.sys.createdAt) || a.sys.id.localeCompare(b.sys.id)
+    );
+
+    for (const entry of oldestFirst) {
+      anchors.set(entry.sys.id, claimAnchorId(this.generateFaqAnchor(entry), anchorIds));
+    }
+
+    return anchors;
+  }
+
+  /**
+   * Generate deep link to a single FAQ question
+   * Ensures consistent /faq#[anchor] pattern, using the anchors generated for the FAQ page
+   */
+  generateFaqEntryUrl(
+    entry: Pick<FaqEntry, 'sys' | 'question'>,
+    anchors: Map<string, string>,
+    absolute = false
+  ): string {
+    const anchor = anchors.get(entry.sys.id) ?? this.generateFaqAnchor(entry);
+    return `${this.generateFaqUrl(absolute)}#${anchor}`;
+  }
+
   /**
    * Generate URL for homepage
    * Ensures consistent / pattern
@@ -109,13 +267,43 @@ export class UrlPatternManager {
     return absolute ? `${this.baseUrl}${path}` : path;
   }
 
+  /**
+   * Generate URL for filtered, sorted or paginated search results
+   * Parameters follow a fixed order and page 1 is implied so equal searches share one URL
+   */
+  generateSearchPageUrl(params: SearchUrlParams, absolute = false): string {
+    const { query, filters = {}, sort, page = 1 } = params;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error(`Invalid search page: ${page}`);
+    }
+
+    const parts: Array<[string, string | undefined]> = [
+      ['q', query],
+      ...SEARCH_FILTER_PARAMS.map((name): [string, string | undefined] => [name, filters[name]]),
+      ['sort', sort],
+      ['page', page > 1 ? String(page) : undefined],
+    ];
+    const queryString = parts
+      .filter((part): part is [string, string] => Boolean(part[1]))
+      .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+      .join('&');
+
+    const path = queryString ? `/search?${queryString}` : '/search';
+    return absolute ? `${this.baseUrl}${path}` : path;
+  }
+
   /**
    * Generate URL for preview pages
-   * Ensures consistent /preview/[type]/[slug] pattern
+   * Ensures consistent /preview/[type]/[slug] pattern; the FAQ preview has no slug
    */
-  generatePreviewUrl(contentType: 'blog' | 'guide', slug: string, absolute = false): string {
-    const validatedSlug = this.validateAndFormatSlug(slug);
-    const path = `/preview/${contentType}/${validatedSlug}`;
+  generatePreviewUrl(contentType: PreviewContentType, slug?: string, absolute = false): string {
+    let path = '/preview/faq';
+    if (previewRequiresSlug(contentType)) {
+      if (!slug) {
+        throw new Error(`Preview URL for ${contentType} requires a slug`);
+      }
+      path = `/preview/${contentType}/${this.validateAndFormatSlug(slug)}`;
+    }
     return absolute ? `${this.baseUrl}${path}` : path;
   }
 
@@ -135,7 +323,7 @@ export class UrlPatternManager {
    */
   generateCanonicalUrl(
     contentType: UrlContentType,
-    content?: BlogPost | Guide | Category,
+    content?: BlogPost | Guide | Category | Author,
     query?: string
   ): string {
     switch (contentType) {
@@ -157,6 +345,12 @@ export class UrlPatternManager {
         }
         break;
 
+      case 'author':
+        if (content && 'name' in content && !('color' in content)) {
+          return this.generateAuthorUrl(content as Author, true);
+        }
+        break;
+
       case 'faq':
         return this.generateFaqUrl(true);
 
@@ -232,6 +426,8 @@ export class UrlPatternManager {
     if (path.startsWith('/blog/')) return 'blog';
     if (path.startsWith('/guides/')) return 'guide';
     if (path.startsWith('/category/')) return 'category';
+    if (path.startsWith('/author/')) return 'author';
+    if (path.startsWith('/tag/')) return 'tag';
     if (path.startsWith('/faq')) return 'faq';
     if (path.startsWith('/search')) return 'search';
     if (path.startsWith('/preview/')) return 'preview';
@@ -258,6 +454,16 @@ export class UrlPatternManager {
         const categoryMatch = path.match(/^\/category\/([^\/\?]+)/);
         return categoryMatch ? categoryMatch[1] : null;
 
+      case 'author': {
+        const authorMatch = path.match(/^\/author\/([^\/\?]+)/);
+        return authorMatch ? authorMatch[1] : null;
+      }
+
+      case 'tag': {
+        const tagMatch = path.match(/^\/tag\/([^\/\?]+)/);
+        return tagMatch ? tagMatch[1] : null;
+      }
+
       case 'preview':
         const previewMatch = path.match(/^\/preview\/[^\/]+\/([^\/\?]+)/);
         return previewMatch ? previewMatch[1] : null;
@@ -273,7 +479,7 @@ export class UrlPatternManager {
    */
   generateBreadcrumbUrls(
     contentType: UrlContentType,
-    content?: BlogPost | Guide | Category
+    content?: BlogPost | Guide | Category | Author
   ): Array<{ name: string; url: string }> {
     const breadcrumbs: Array<{ name: string; url: string }> = [
       { name: 'Home', url: this.generateHomepageUrl() },
@@ -310,6 +516,20 @@ export class UrlPatternManager {
         }
         break;
 
+      case 'author':
+        breadcrumbs.push({ name: 'Blog', url: '/blog' });
+        if (content && 'name' in content) {
+          breadcrumbs.push({
+            name: content.name,
+            url: this.generateAuthorUrl(content as Author),
+          });
+        }
+        break;
+
+      case 'tag':
+        breadcrumbs.push({ name: 'Blog', url: '/blog' });
+        break;
+
       case 'faq':
         breadcrumbs.push({ name: 'FAQ', url: this.generateFaqUrl() });
         break;
@@ -358,11 +578,12 @@ export class UrlPatternManager {
 
 /**
  * Factory function to create UrlPatternManager with site configuration
- * Uses environment variables with fallbacks for development
+ * Uses environment variables with fallbacks for development; `locale` picks a configured locale
  */
-export function createUrlPatternManager(): UrlPatternManager {
+export function createUrlPatternManager(locale?: string): UrlPatternManager {
   const baseUrl = process.env.SITE_URL || 'http://localhost:4321';
-  return new UrlPatternManager(baseUrl);
+  const urlManager = new UrlPatternManager(baseUrl, getLocaleConfig());
+  return locale ? urlManager.forLocale(locale) : urlManager;
 }
 
 /**
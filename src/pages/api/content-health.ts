@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import { ContentValidator, scanContentHealth } from '../../lib/contentValidation.js';
+import { createContentfulService } from '../../lib/contentful.js';
+import { PREVIEW_ROBOTS_HEADER, createPreviewTokenSigner } from '../../lib/preview.js';
+
+export const prerender = false; // SSR endpoint
+
+// Content-health report: validates every published (or, with ?preview=true, draft) entry live
+// and lists the ones pages leave out. Entry IDs of drafts are not public, so editors
+// authenticate with the preview secret as a bearer token.
+export const GET: APIRoute = async ({ request, url }) => {
+  const signer = createPreviewTokenSigner();
+  if (!signer.isConfigured) {
+    return new Response(JSON.stringify({ error: 'Preview mode is not configured' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const secret = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!secret || !signer.matchesSecret(secret)) {
+    return new Response(JSON.stringify({ error: 'Invalid preview secret' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // A fresh validator that never throws, so the report covers every broken entry at once
+  const validator = new ContentValidator('skip');
+  const service = createContentfulService(validator);
+  if (!service) {
+    return new Response(JSON.stringify({ error: 'Contentful is not configured' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const report = await scanContentHealth(
+      service,
+      validator,
+      url.searchParams.get('preview') === 'true'
+    );
+
+    return new Response(JSON.stringify(report, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+        'X-Robots-Tag': PREVIEW_ROBOTS_HEADER,
+      },
+    });
+  } catch (error) {
+    console.error('Content health check failed:', error);
+
+    return new Response(JSON.stringify({ error: 'Failed to read content from Contentful' }), {
+      status: 502,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
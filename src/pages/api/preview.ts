@@ -1,71 +1,170 @@
-import type { APIRoute } from 'astro';
+import type { APIContext, APIRoute } from 'astro';
+import {
+  PREVIEW_CONTENT_TYPES,
+  PREVIEW_COOKIE,
+  PREVIEW_SESSION_MAX_AGE,
+  createPreviewTokenSigner,
+  isPreviewContentType,
+  previewRequiresSlug,
+} from '../../lib/preview.js';
+import { createUrlPatternManager } from '../../lib/urlPatterns.js';
 
 export const prerender = false; // SSR endpoint
 
-// Preview activation endpoint
-export const POST: APIRoute = async ({ request, cookies, redirect }) => {
-  try {
-    // Parse request body
-    const contentType = request.headers.get('content-type');
-    let body: Record<string, unknown>;
+// Attributes of the session cookie, shared by activation and deactivation
+function previewCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax, not strict: the cookie must survive the redirect after a cross-site "Open preview" click
+    sameSite: 'lax' as const,
+    path: '/',
+  };
+}
 
-    if (contentType?.includes('application/json')) {
-      body = await request.json();
-    } else if (contentType?.includes('application/x-www-form-urlencoded')) {
-      const formData = await request.formData();
-      body = Object.fromEntries(formData.entries());
-    } else {
-      return new Response(
-        JSON.stringify({
-          error:
-            'Invalid content type. Expected application/json or application/x-www-form-urlencoded',
-        }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-    }
+// Activation parameters, from a JSON or form body or from the query string
+interface PreviewParams {
+  secret?: string;
+  slug?: string;
+  contentType?: string;
+}
+
+// Bodies can be any JSON value, and form fields can be files
+function isPreviewParams(value: unknown): value is PreviewParams {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const { secret, slug, contentType } = value as Record<string, unknown>;
+  return [secret, slug, contentType].every(
+    (field) => field === undefined || typeof field === 'string'
+  );
+}
+
+// Shared by POST (webhooks, forms) and GET (Contentful's "Open preview" button)
+async function activatePreview(
+  params: PreviewParams,
+  { request, cookies, redirect }: Pick<APIContext, 'request' | 'cookies' | 'redirect'>
+): Promise<Response> {
+  const { secret, slug, contentType: type } = params;
+
+  // Validate required parameters
+  if (!secret) {
+    return new Response(JSON.stringify({ error: 'Preview secret is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Preview is disabled in production until a secret is configured
+  const signer = createPreviewTokenSigner();
+  if (!signer.isConfigured) {
+    return new Response(JSON.stringify({ error: 'Preview mode is not configured' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Validate preview secret against every accepted (current and rotated-out) secret
+  if (!signer.matchesSecret(secret)) {
+    console.warn('Invalid preview secret attempt:', {
+      provided: `${secret.substring(0, 4)}...`,
+      timestamp: new Date().toISOString(),
+    });
+
+    return new Response(JSON.stringify({ error: 'Invalid preview secret' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-    const { secret, slug, contentType: type } = body as Record<string, string>;
+  // Validate content type
+  const contentTypeToUse = type || 'blog'; // Default to blog if not specified
 
-    // Validate required parameters
-    if (!secret) {
-      return new Response(JSON.stringify({ error: 'Preview secret is required' }), {
+  if (!isPreviewContentType(contentTypeToUse)) {
+    return new Response(
+      JSON.stringify({
+        error: `Invalid content type. Must be one of: ${PREVIEW_CONTENT_TYPES.join(', ')}`,
+      }),
+      {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
-      });
-    }
+      }
+    );
+  }
+
+  // Every preview except the FAQ page targets a single entry
+  if (!slug && previewRequiresSlug(contentTypeToUse)) {
+    return new Response(JSON.stringify({ error: 'Content slug is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
 
-    if (!slug) {
-      return new Response(JSON.stringify({ error: 'Content slug is required' }), {
+  // Set secure preview cookie holding a signed token scoped to this entry
+  const urlManager = createUrlPatternManager();
+  let formattedSlug: string | undefined;
+  try {
+    formattedSlug = slug ? urlManager.validateAndFormatSlug(slug) : undefined;
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: `Invalid content slug: ${(error as Error).message}` }),
+      {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
-      });
-    }
+      }
+    );
+  }
+  const target = { contentType: contentTypeToUse, slug: formattedSlug };
+  cookies.set(PREVIEW_COOKIE, signer.sign(target), {
+    ...previewCookieOptions(),
+    maxAge: PREVIEW_SESSION_MAX_AGE,
+  });
 
-    // Validate preview secret
-    const expectedSecret = process.env.CONTENTFUL_PREVIEW_SECRET || 'mock-preview-secret';
-    if (secret !== expectedSecret) {
-      console.warn('Invalid preview secret attempt:', {
-        provided: `${(secret as string)?.substring(0, 4)}...`,
-        timestamp: new Date().toISOString(),
-      });
+  // Log successful preview activation (for debugging)
+  console.log('Preview mode activated:', {
+    contentType: contentTypeToUse,
+    slug,
+    timestamp: new Date().toISOString(),
+  });
 
-      return new Response(JSON.stringify({ error: 'Invalid preview secret' }), {
-        status: 401,
+  // Redirect to preview page
+  const previewUrl = urlManager.generatePreviewUrl(target.contentType, target.slug);
+
+  // Return JSON response for API clients or redirect for browser requests
+  const acceptHeader = request.headers.get('accept');
+  if (acceptHeader?.includes('application/json')) {
+    return new Response(
+      JSON.stringify({
+        success: true,
+        previewUrl,
+        message: 'Preview mode activated successfully',
+      }),
+      {
+        status: 200,
         headers: { 'Content-Type': 'application/json' },
-      });
-    }
+      }
+    );
+  }
+  return redirect(previewUrl, 302);
+}
 
-    // Validate content type
-    const validContentTypes = ['blog', 'guide'];
-    const contentTypeToUse = type || 'blog'; // Default to blog if not specified
+// Preview activation endpoint
+export const POST: APIRoute = async (context) => {
+  try {
+    // Parse request body
+    const contentType = context.request.headers.get('content-type');
+    let body: unknown;
 
-    if (!validContentTypes.includes(contentTypeToUse)) {
+    if (contentType?.includes('application/json')) {
+      // Malformed JSON is rejected below along with other non-object bodies
+      body = await context.request.json().catch(() => null);
+    } else if (contentType?.includes('application/x-www-form-urlencoded')) {
+      const formData = await context.request.formData();
+      body = Object.fromEntries(formData.entries());
+    } else {
       return new Response(
         JSON.stringify({
-          error: `Invalid content type. Must be one of: ${validContentTypes.join(', ')}`,
+          error:
+            'Invalid content type. Expected application/json or application/x-www-form-urlencoded',
         }),
         {
           status: 400,
@@ -74,58 +173,20 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
       );
     }
 
-    // Set secure preview cookie
-    cookies.set('preview', 'true', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 60 * 60, // 1 hour
-      path: '/',
-    });
-
-    // Set additional metadata cookie for tracking
-    cookies.set(
-      'preview-meta',
-      JSON.stringify({
-        contentType: contentTypeToUse,
-        slug,
-        activatedAt: new Date().toISOString(),
-      }),
-      {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'strict',
-        maxAge: 60 * 60, // 1 hour
-        path: '/',
-      }
-    );
-
-    // Log successful preview activation (for debugging)
-    console.log('Preview mode activated:', {
-      contentType: contentTypeToUse,
-      slug,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Redirect to preview page
-    const previewUrl = `/preview/${contentTypeToUse}/${slug}`;
-
-    // Return JSON response for API clients or redirect for browser requests
-    const acceptHeader = request.headers.get('accept');
-    if (acceptHeader?.includes('application/json')) {
+    if (!isPreviewParams(body)) {
       return new Response(
         JSON.stringify({
-          success: true,
-          previewUrl,
-          message: 'Preview mode activated successfully',
+          error:
+            'Invalid request body. Expected an object with string secret, slug and contentType',
         }),
         {
-          status: 200,
+          status: 400,
           headers: { 'Content-Type': 'application/json' },
         }
       );
     }
-    return redirect(previewUrl, 302);
+
+    return await activatePreview(body, context);
   } catch (error) {
     console.error('Preview activation error:', error);
 
@@ -146,8 +207,8 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
 export const DELETE: APIRoute = async ({ cookies }) => {
   try {
     // Clear preview cookies
-    cookies.delete('preview', { path: '/' });
-    cookies.delete('preview-meta', { path: '/' });
+    cookies.delete(PREVIEW_COOKIE, previewCookieOptions());
+    cookies.delete('preview-meta', { path: '/' }); // Left over from unsigned sessions
 
     console.log('Preview mode deactivated:', {
       timestamp: new Date().toISOString(),
@@ -180,22 +241,50 @@ export const DELETE: APIRoute = async ({ cookies }) => {
   }
 };
 
-// Preview status check endpoint
-export const GET: APIRoute = async ({ cookies }) => {
-  try {
-    const previewCookie = cookies.get('preview');
-    const previewMetaCookie = cookies.get('preview-meta');
+// Preview activation via query string (?secret=...&type=blog&slug=...), or status check without one
+export const GET: APIRoute = async (context) => {
+  const { url, cookies } = context;
 
-    const isActive = previewCookie?.value === 'true';
-    let metadata = null;
+  if (url.searchParams.has('secret')) {
+    try {
+      return await activatePreview(
+        {
+          secret: url.searchParams.get('secret') ?? undefined,
+          slug: url.searchParams.get('slug') ?? undefined,
+          contentType:
+            url.searchParams.get('type') ?? url.searchParams.get('contentType') ?? undefined,
+        },
+        context
+      );
+    } catch (error) {
+      console.error('Preview activation error:', error);
 
-    if (isActive && previewMetaCookie?.value) {
-      try {
-        metadata = JSON.parse(previewMetaCookie.value);
-      } catch (parseError) {
-        console.warn('Failed to parse preview metadata cookie:', parseError);
-      }
+      return new Response(
+        JSON.stringify({
+          error: 'Preview activation failed',
+          message: 'An internal error occurred while activating preview mode',
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
     }
+  }
+
+  try {
+    const token = cookies.get(PREVIEW_COOKIE)?.value;
+    const verification = token ? createPreviewTokenSigner().verify(token) : null;
+
+    const isActive = verification?.valid === true;
+    const metadata = verification?.valid
+      ? {
+          contentType: verification.payload.type,
+          slug: verification.payload.slug,
+          activatedAt: new Date(verification.payload.iat * 1000).toISOString(),
+          expiresAt: new Date(verification.payload.exp * 1000).toISOString(),
+        }
+      : null;
 
     return new Response(
       JSON.stringify({
@@ -0,0 +1,113 @@
+import type { APIRoute } from 'astro';
+import { createSnapshotSlugLookup } from '../../lib/contentCache.js';
+import { clearSharedContentMemo } from '../../lib/contentMemo.js';
+import { createContentService } from '../../lib/mocks.js';
+import {
+  CONTENTFUL_TOPIC_HEADER,
+  createRevalidationHook,
+  createRevalidationPlanner,
+  getWebhookSecrets,
+  parseContentfulWebhook,
+  verifyContentfulWebhook,
+} from '../../lib/revalidation.js';
+
+export const prerender = false; // SSR endpoint
+
+// Contentful webhook receiver: maps published entries to the pages that need rebuilding
+export const POST: APIRoute = async ({ request, url }) => {
+  const body = await request.text();
+
+  // Webhooks are disabled in production until a secret is configured
+  const secrets = getWebhookSecrets();
+  if (secrets.length === 0) {
+    return new Response(JSON.stringify({ error: 'Webhook verification is not configured' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const verification = verifyContentfulWebhook(
+    {
+      method: request.method,
+      path: `${url.pathname}${url.search}`,
+      headers: request.headers,
+      body,
+    },
+    secrets
+  );
+  if (!verification.valid) {
+    console.warn('Rejected Contentful webhook:', {
+      reason: verification.error,
+      timestamp: new Date().toISOString(),
+    });
+
+    return new Response(JSON.stringify({ error: 'Invalid webhook signature' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Published content changed, so the planner and later page renders must not see memoized reads
+  clearSharedContentMemo('delivery');
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response(JSON.stringify({ error: 'Webhook body must be JSON' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const change = parseContentfulWebhook(
+    payload,
+    request.headers.get(CONTENTFUL_TOPIC_HEADER) ?? undefined
+  );
+  if (!change) {
+    // Acknowledge so Contentful does not retry changes the site does not render
+    return new Response(JSON.stringify({ revalidated: false, reason: 'Unsupported entry' }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    // The last build's snapshot knows the old slug of renamed, unpublished and deleted entries
+    const plan = await createRevalidationPlanner(
+      createContentService(),
+      createSnapshotSlugLookup()
+    ).plan(change);
+    const hook = createRevalidationHook();
+    await hook.trigger(plan);
+
+    console.log('Revalidation triggered:', {
+      contentType: change.contentType,
+      slug: change.slug,
+      hook: hook.name,
+      paths: plan.paths.length,
+    });
+
+    return new Response(
+      JSON.stringify({ revalidated: true, hook: hook.name, change, paths: plan.paths }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Revalidation error:', error);
+
+    // A 5xx makes Contentful retry the webhook
+    return new Response(
+      JSON.stringify({
+        error: 'Revalidation failed',
+        message: 'An internal error occurred while triggering revalidation',
+      }),
+      {
+        status: 502,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,67 @@
+import type { APIRoute } from 'astro';
+import { createContentService } from '../../lib/mocks.js';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  MIN_QUERY_LENGTH,
+  createContentSearch,
+} from '../../lib/search.js';
+
+export const prerender = false; // SSR endpoint
+
+// Search endpoint backing InteractiveSearch suggestions
+export const GET: APIRoute = async ({ url }) => {
+  const query = (url.searchParams.get('q') || '').trim();
+  const limitParam = url.searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_SEARCH_LIMIT : Number(limitParam);
+
+  if (query.length < MIN_QUERY_LENGTH) {
+    return new Response(
+      JSON.stringify({
+        error: `Search query must be at least ${MIN_QUERY_LENGTH} characters`,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return new Response(
+      JSON.stringify({
+        error: `Invalid limit. Must be an integer between 1 and ${MAX_SEARCH_LIMIT}`,
+      }),
+      {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const contentSearch = createContentSearch();
+    const results = await contentSearch.searchContent(query, createContentService(), limit);
+
+    return new Response(JSON.stringify({ query, count: results.length, results }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60', // Short cache so new content shows up quickly
+      },
+    });
+  } catch (error) {
+    console.error('Search API error:', error);
+
+    return new Response(
+      JSON.stringify({
+        error: 'Search failed',
+        message: 'An internal error occurred while searching content',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,38 @@
+// Prerendered search index artifact
+// Read by SSR search routes and available to client-side search without querying Contentful
+
+import type { APIRoute } from 'astro';
+import { createContentService } from '../lib/mocks.js';
+import {
+  buildSearchIndex,
+  createEmptySearchIndex,
+  fetchSearchIndexSource,
+} from '../lib/searchIndex.js';
+
+export const prerender = true;
+
+export const GET: APIRoute = async () => {
+  try {
+    const source = await fetchSearchIndexSource(createContentService());
+    const index = buildSearchIndex(source);
+
+    return new Response(JSON.stringify(index), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=3600', // Rebuilt with every deploy
+      },
+    });
+  } catch (error) {
+    console.error('Error generating search index:', error);
+
+    // Return an empty index on error to prevent build failures
+    return new Response(JSON.stringify(createEmptySearchIndex()), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=300', // Shorter cache on error
+      },
+    });
+  }
+};
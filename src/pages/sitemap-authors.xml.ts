@@ -0,0 +1,71 @@
+// Author profile pages sitemap generation
+// Lists every /author/[slug] page so BlogPosting author URLs are discoverable
+
+import type { APIRoute } from 'astro';
+import { createContentService } from '../lib/mocks.js';
+import {
+  formatSitemapTimestamp,
+  formatSitemapUrl,
+  generateSitemapXml,
+  getSitemapBaseUrl,
+  handleSitemapError,
+  shouldIncludeInSitemap,
+} from '../lib/sitemap.js';
+import { createUrlPatternManager } from '../lib/urlPatterns.js';
+
+export const prerender = true;
+
+export const GET: APIRoute = async () => {
+  const baseUrl = getSitemapBaseUrl();
+  const contentService = createContentService();
+  const urlManager = createUrlPatternManager();
+
+  try {
+    // Fetch all published authors and posts (not preview mode)
+    const [authors, blogPosts] = await Promise.all([
+      contentService.getAuthors(false),
+      contentService.getAllBlogPosts(false),
+    ]);
+
+    // Convert authors to sitemap entries
+    const sitemapEntries = authors
+      .map((author) => {
+        const url = formatSitemapUrl(urlManager.generateAuthorUrl(author), baseUrl);
+
+        if (!shouldIncludeInSitemap(url)) {
+          return null;
+        }
+
+        // A profile changes whenever the author or one of their posts does
+        const lastUpdated = blogPosts
+          .filter((post) => post.author.slug === author.slug)
+          .map((post) => post.sys.updatedAt)
+          .reduce(
+            (latest, updatedAt) =>
+              new Date(updatedAt).getTime() > new Date(latest).getTime() ? updatedAt : latest,
+            author.sys.updatedAt
+          );
+
+        return {
+          url,
+          lastmod: formatSitemapTimestamp(lastUpdated),
+          changefreq: 'monthly' as const,
+          priority: 0.5,
+        };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    // Generate the complete sitemap XML
+    const xml = generateSitemapXml(sitemapEntries);
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+      },
+    });
+  } catch (error) {
+    return handleSitemapError('authors', error);
+  }
+};
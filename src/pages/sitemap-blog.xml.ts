@@ -5,40 +5,44 @@ import type { APIRoute } from 'astro';
 import { createContentService } from '../lib/mocks.js';
 import {
   formatSitemapTimestamp,
-  formatSitemapUrl,
+  generateSitemapImages,
   generateSitemapXml,
-  getSitemapBaseUrl,
+  handleSitemapError,
   shouldIncludeInSitemap,
 } from '../lib/sitemap.js';
+import { type UrlPatternManager, createUrlPatternManager } from '../lib/urlPatterns.js';
 
 export const prerender = true;
 
 export const GET: APIRoute = async () => {
-  const baseUrl = getSitemapBaseUrl();
   const contentService = createContentService();
+  const urlManager = createUrlPatternManager();
 
   try {
     // Fetch all published blog posts (not preview mode)
-    const blogPosts = await contentService.getBlogPosts(1000, false);
-
-    // Convert blog posts to sitemap entries
-    const sitemapEntries = blogPosts
-      .map((post) => {
-        const url = formatSitemapUrl(`/blog/${post.slug}`, baseUrl);
-
-        // Only include if URL should be in sitemap (excludes preview routes, etc.)
-        if (!shouldIncludeInSitemap(url)) {
-          return null;
-        }
-
-        return {
-          url,
-          lastmod: formatSitemapTimestamp(post.sys.updatedAt),
-          changefreq: 'weekly' as const,
-          priority: 0.8,
-        };
-      })
-      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+    const blogPosts = await contentService.getAllBlogPosts(false);
+
+    // Convert blog posts to sitemap entries, one per locale listing every language version
+    const sitemapEntries = blogPosts.flatMap((post) => {
+      const generate = (urls: UrlPatternManager) => urls.generateBlogPostUrl(post, true);
+      const alternates = urlManager.generateAlternateUrls(generate);
+      const images = generateSitemapImages([post.featuredImage, post.seo?.ogImage]);
+
+      return (
+        urlManager
+          .generateLocalizedUrls(generate)
+          // Only include if URL should be in sitemap (excludes preview routes, etc.)
+          .filter((url) => shouldIncludeInSitemap(url))
+          .map((url) => ({
+            url,
+            lastmod: formatSitemapTimestamp(post.sys.updatedAt),
+            changefreq: 'weekly' as const,
+            priority: 0.8,
+            alternates,
+            images,
+          }))
+      );
+    });
 
     // Generate the complete sitemap XML
     const xml = generateSitemapXml(sitemapEntries);
@@ -51,17 +55,6 @@ export const GET: APIRoute = async () => {
       },
     });
   } catch (error) {
-    console.error('Error generating blog sitemap:', error);
-
-    // Return empty sitemap on error to prevent build failures
-    const emptyXml = generateSitemapXml([]);
-
-    return new Response(emptyXml, {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=300', // Shorter cache on error
-      },
-    });
+    return handleSitemapError('blog', error);
   }
 };
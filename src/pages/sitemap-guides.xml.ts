@@ -5,40 +5,47 @@ import type { APIRoute } from 'astro';
 import { createContentService } from '../lib/mocks.js';
 import {
   formatSitemapTimestamp,
-  formatSitemapUrl,
+  generateSitemapImages,
   generateSitemapXml,
-  getSitemapBaseUrl,
+  handleSitemapError,
   shouldIncludeInSitemap,
 } from '../lib/sitemap.js';
+import { type UrlPatternManager, createUrlPatternManager } from '../lib/urlPatterns.js';
 
 export const prerender = true;
 
 export const GET: APIRoute = async () => {
-  const baseUrl = getSitemapBaseUrl();
   const contentService = createContentService();
+  const urlManager = createUrlPatternManager();
 
   try {
     // Fetch all published guides (not preview mode)
-    const guides = await contentService.getGuides(1000, false);
-
-    // Convert guides to sitemap entries
-    const sitemapEntries = guides
-      .map((guide) => {
-        const url = formatSitemapUrl(`/guides/${guide.slug}`, baseUrl);
-
-        // Only include if URL should be in sitemap (excludes preview routes, etc.)
-        if (!shouldIncludeInSitemap(url)) {
-          return null;
-        }
-
-        return {
-          url,
-          lastmod: formatSitemapTimestamp(guide.sys.updatedAt),
-          changefreq: 'monthly' as const,
-          priority: 0.9, // Higher priority for guides as they're comprehensive content
-        };
-      })
-      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+    const guides = await contentService.getAllGuides(false);
+
+    // Convert guides to sitemap entries, one per locale listing every language version
+    const sitemapEntries = guides.flatMap((guide) => {
+      const generate = (urls: UrlPatternManager) => urls.generateGuideUrl(guide, true);
+      const alternates = urlManager.generateAlternateUrls(generate);
+      const images = generateSitemapImages([
+        guide.featuredImage,
+        ...guide.steps.map((step) => step.image),
+      ]);
+
+      return (
+        urlManager
+          .generateLocalizedUrls(generate)
+          // Only include if URL should be in sitemap (excludes preview routes, etc.)
+          .filter((url) => shouldIncludeInSitemap(url))
+          .map((url) => ({
+            url,
+            lastmod: formatSitemapTimestamp(guide.sys.updatedAt),
+            changefreq: 'monthly' as const,
+            priority: 0.9, // Higher priority for guides as they're comprehensive content
+            alternates,
+            images,
+          }))
+      );
+    });
 
     // Generate the complete sitemap XML
     const xml = generateSitemapXml(sitemapEntries);
@@ -51,17 +58,6 @@ export const GET: APIRoute = async () => {
       },
     });
   } catch (error) {
-    console.error('Error generating guides sitemap:', error);
-
-    // Return empty sitemap on error to prevent build failures
-    const emptyXml = generateSitemapXml([]);
-
-    return new Response(emptyXml, {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=300', // Shorter cache on error
-      },
-    });
+    return handleSitemapError('guides', error);
   }
 };
@@ -28,6 +28,14 @@ export const GET: APIRoute = async () => {
       sitemap: formatSitemapUrl('/sitemap-guides.xml', baseUrl),
       // Guides sitemap will include its own lastmod based on latest guide
     },
+    {
+      sitemap: formatSitemapUrl('/sitemap-authors.xml', baseUrl),
+      // Authors sitemap uses each author's latest post for lastmod
+    },
+    {
+      sitemap: formatSitemapUrl('/sitemap-tags.xml', baseUrl),
+      // Tags sitemap only lists tags above the indexing threshold
+    },
   ];
 
   // Generate the complete sitemap index XML
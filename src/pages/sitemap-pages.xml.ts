@@ -3,19 +3,22 @@
 
 import type { APIRoute } from 'astro';
 import { createContentService } from '../lib/mocks.js';
+import { getTotalPages } from '../lib/pagination.js';
 import {
-  type SitemapEntry,
   formatSitemapUrl,
   generateSitemapXml,
   getSitemapBaseUrl,
+  handleSitemapError,
   shouldIncludeInSitemap,
 } from '../lib/sitemap.js';
+import { type ArchiveType, createUrlPatternManager } from '../lib/urlPatterns.js';
 
 export const prerender = true;
 
 export const GET: APIRoute = async () => {
   const baseUrl = getSitemapBaseUrl();
   const contentService = createContentService();
+  const urlManager = createUrlPatternManager();
 
   try {
     // Define static pages that should be included in sitemap
@@ -32,16 +35,40 @@ export const GET: APIRoute = async () => {
       },
     ];
 
-    // Get categories for category pages
+    // Get categories for category pages and the categories hub
     const categories = await contentService.getCategories(false);
-    const categoryPages = categories.map((category) => ({
-      url: `/category/${category.slug}`,
-      changefreq: 'weekly' as const,
-      priority: 0.6,
-    }));
+    const categoryPages = [
+      {
+        url: urlManager.generateCategoriesUrl(),
+        changefreq: 'weekly' as const,
+        priority: 0.6,
+      },
+      ...categories.map((category) => ({
+        url: `/category/${category.slug}`,
+        changefreq: 'weekly' as const,
+        priority: 0.6,
+      })),
+    ];
+
+    // Every page of the blog and guide archives; the first page is the archive root
+    const [blogPosts, guides] = await Promise.all([
+      contentService.getAllBlogPosts(false),
+      contentService.getAllGuides(false),
+    ]);
+    const archiveTotals: Array<[ArchiveType, number]> = [
+      ['blog', blogPosts.length],
+      ['guides', guides.length],
+    ];
+    const archivePages = archiveTotals.flatMap(([archive, totalItems]) =>
+      Array.from({ length: getTotalPages(totalItems) }, (_, index) => ({
+        url: urlManager.generateArchiveUrl(archive, index + 1),
+        changefreq: index === 0 ? ('daily' as const) : ('weekly' as const),
+        priority: index === 0 ? 0.8 : 0.4,
+      }))
+    );
 
     // Combine all static pages
-    const allPages = [...staticPages, ...categoryPages];
+    const allPages = [...staticPages, ...archivePages, ...categoryPages];
 
     // Convert to sitemap entries with proper URL formatting
     const sitemapEntries = allPages
@@ -73,25 +100,13 @@ export const GET: APIRoute = async () => {
       },
     });
   } catch (error) {
-    console.error('Error generating pages sitemap:', error);
-
-    // Return minimal sitemap with just homepage on error
-    const fallbackEntries: SitemapEntry[] = [
+    // Fall back to a minimal sitemap with just the homepage when the policy allows it
+    return handleSitemapError('pages', error, [
       {
         url: formatSitemapUrl('/', baseUrl),
         changefreq: 'daily',
         priority: 1.0,
       },
-    ];
-
-    const fallbackXml = generateSitemapXml(fallbackEntries);
-
-    return new Response(fallbackXml, {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=300', // Shorter cache on error
-      },
-    });
+    ]);
   }
 };
@@ -0,0 +1,67 @@
+// Tag archive pages sitemap generation
+// Lists /tag/[slug] pages that meet the indexing threshold; thin tags are noindexed instead
+
+import type { APIRoute } from 'astro';
+import { createContentService } from '../lib/mocks.js';
+import {
+  formatSitemapTimestamp,
+  formatSitemapUrl,
+  generateSitemapXml,
+  getSitemapBaseUrl,
+  handleSitemapError,
+  shouldIncludeInSitemap,
+} from '../lib/sitemap.js';
+import { groupPostsByTag, isTagIndexable } from '../lib/tags.js';
+import { createUrlPatternManager } from '../lib/urlPatterns.js';
+
+export const prerender = true;
+
+export const GET: APIRoute = async () => {
+  const baseUrl = getSitemapBaseUrl();
+  const contentService = createContentService();
+  const urlManager = createUrlPatternManager();
+
+  try {
+    // Fetch all published blog posts (not preview mode)
+    const blogPosts = await contentService.getAllBlogPosts(false);
+
+    // Convert indexable tags to sitemap entries
+    const sitemapEntries = groupPostsByTag(blogPosts)
+      .filter((tag) => isTagIndexable(tag.posts.length))
+      .map((tag) => {
+        const url = formatSitemapUrl(urlManager.generateTagUrl(tag.slug), baseUrl);
+
+        if (!shouldIncludeInSitemap(url)) {
+          return null;
+        }
+
+        // A tag page changes whenever one of its posts does
+        const lastUpdated = tag.posts
+          .map((post) => post.sys.updatedAt)
+          .reduce((latest, updatedAt) =>
+            new Date(updatedAt).getTime() > new Date(latest).getTime() ? updatedAt : latest
+          );
+
+        return {
+          url,
+          lastmod: formatSitemapTimestamp(lastUpdated),
+          changefreq: 'weekly' as const,
+          priority: 0.4,
+        };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    // Generate the complete sitemap XML
+    const xml = generateSitemapXml(sitemapEntries);
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+      },
+    });
+  } catch (error) {
+    return handleSitemapError('tags', error);
+  }
+};
@@ -0,0 +1,361 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import fc from 'fast-check';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  CachedContentService,
+  type ContentSnapshot,
+  ContentSnapshotSync,
+  type ContentSyncQuery,
+  FileSnapshotStore,
+  type SnapshotStore,
+  type SyncDelta,
+  type SyncedEntity,
+  applySyncDelta,
+  createCachedContentService,
+  createEmptySnapshot,
+  createSnapshotSlugLookup,
+  getSnapshotSlug,
+} from '../lib/contentCache.js';
+import { collectPages } from '../lib/contentful.js';
+import { MockContentfulService } from '../lib/mocks.js';
+import { propertyTestConfig } from './setup';
+
+const identity = { spaceId: 'space', environment: 'master' };
+
+const link = (linkType: 'Entry' | 'Asset', id: string) => ({ sys: { type: 'Link', linkType, id } });
+
+// Synced entities key every field by locale
+function entity(
+  id: string,
+  contentType: string | null,
+  fields: Record<string, unknown>
+): SyncedEntity {
+  return {
+    sys: {
+      id,
+      type: contentType ? 'Entry' : 'Asset',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+      ...(contentType ? { contentType: { sys: { id: contentType } } } : {}),
+    },
+    fields: Object.fromEntries(
+      Object.entries(fields).map(([name, value]) => [name, { 'en-US': value }])
+    ),
+  };
+}
+
+const post = (
+  id: string,
+  slug: string,
+  publishedAt: string,
+  fields: Record<string, unknown> = {}
+) =>
+  entity(id, 'blogPost', {
+    title: `Post ${slug}`,
+    slug,
+    excerpt: 'Excerpt',
+    content: 'Body',
+    author: link('Entry', 'author-1'),
+    category: link('Entry', 'category-1'),
+    tags: ['astro'],
+    publishedAt,
+    ...fields,
+  });
+
+const initialDelta: SyncDelta = {
+  entries: [
+    entity('author-1', 'author', {
+      name: 'Ada',
+      slug: 'ada',
+      avatar: link('Asset', 'asset-1'),
+    }),
+    entity('category-1', 'category', { name: 'Performance', slug: 'performance', color: '#000' }),
+    post('post-1', 'older', '2024-01-01T00:00:00Z', { featuredImage: link('Asset', 'asset-1') }),
+    post('post-2', 'newer', '2024-03-01T00:00:00Z', { tags: ['seo'] }),
+    entity('guide-1', 'guide', {
+      title: 'Guide',
+      slug: 'guide',
+      description: 'Guide description',
+      content: 'Body',
+      difficulty: 'beginner',
+      estimatedTime: 10,
+      steps: [link('Entry', 'step-1'), link('Entry', 'step-draft')],
+      category: link('Entry', 'category-1'),
+      publishedAt: '2024-02-01T00:00:00Z',
+    }),
+    entity('step-1', 'guideStep', {
+      title: 'Measure',
+      content: 'Run Lighthouse',
+      image: link('Asset', 'asset-1'),
+    }),
+    entity('faq-2', 'faqEntry', {
+      question: 'Second?',
+      answer: 'Yes',
+      category: 'General',
+      order: 2,
+    }),
+    entity('faq-1', 'faqEntry', {
+      question: 'First?',
+      answer: 'Yes',
+      category: 'General',
+      order: 1,
+    }),
+  ],
+  assets: [
+    entity('asset-1', null, {
+      title: 'Image',
+      file: { url: '//images.ctfassets.net/image.png', fileName: 'image.png' },
+    }),
+  ],
+  deletedEntries: [],
+  deletedAssets: [],
+  nextSyncToken: 'token-1',
+};
+
+const snapshot = applySyncDelta(createEmptySnapshot(identity), initialDelta);
+
+// Store kept in memory so sync rounds can be inspected
+function memoryStore(initial: ContentSnapshot | null = null) {
+  const store = {
+    saved: initial,
+    load: vi.fn(async () => store.saved),
+    save: vi.fn(async (next: ContentSnapshot) => {
+      store.saved = next;
+    }),
+  };
+  return store satisfies SnapshotStore;
+}
+
+describe('Content Cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Snapshot Sync', () => {
+    test('should apply changed and deleted entities from a delta', () => {
+      const next = applySyncDelta(snapshot, {
+        entries: [post('post-3', 'latest', '2024-04-01T00:00:00Z')],
+        assets: [],
+        deletedEntries: [{ sys: { id: 'post-1', type: 'DeletedEntry' } }],
+        deletedAssets: [{ sys: { id: 'asset-1', type: 'DeletedAsset' } }],
+        nextSyncToken: 'token-2',
+      });
+
+      expect(next.syncToken).toBe('token-2');
+      expect(Object.keys(next.entries)).toContain('post-3');
+      expect(next.entries['post-1']).toBeUndefined();
+      expect(next.assets).toEqual({});
+      expect(snapshot.entries['post-1']).toBeDefined();
+    });
+
+    test('should reject a delta without a next sync token', () => {
+      expect(() => applySyncDelta(snapshot, { ...initialDelta, nextSyncToken: undefined })).toThrow(
+        'next sync token'
+      );
+    });
+
+    test('should run an initial sync first and only request deltas afterwards', async () => {
+      const queries: ContentSyncQuery[] = [];
+      const source = {
+        sync: async (query: ContentSyncQuery) => {
+          queries.push(query);
+          return 'initial' in query
+            ? initialDelta
+            : {
+                entries: [],
+                assets: [],
+                deletedEntries: [],
+                deletedAssets: [],
+                nextSyncToken: 'token-2',
+              };
+        },
+      };
+      const store = memoryStore();
+      const sync = new ContentSnapshotSync(source, store, identity);
+
+      await sync.sync();
+      const next = await sync.sync();
+
+      expect(queries).toEqual([{ initial: true }, { nextSyncToken: 'token-1' }]);
+      expect(next.syncToken).toBe('token-2');
+      expect(Object.keys(next.entries)).toHaveLength(initialDelta.entries.length);
+      expect(store.saved?.syncToken).toBe('token-2');
+    });
+
+    test('should fall back to a full sync for rejected tokens and foreign snapshots', async () => {
+      const queries: ContentSyncQuery[] = [];
+      const source = {
+        sync: async (query: ContentSyncQuery) => {
+          queries.push(query);
+          if ('nextSyncToken' in query) throw new Error('Invalid sync token');
+          return initialDelta;
+        },
+      };
+
+      await new ContentSnapshotSync(source, memoryStore(snapshot), identity).sync();
+      await new ContentSnapshotSync(source, memoryStore(snapshot), {
+        spaceId: 'space',
+        environment: 'staging',
+      }).sync();
+
+      expect(queries).toEqual([{ nextSyncToken: 'token-1' }, { initial: true }, { initial: true }]);
+    });
+
+    test('should store snapshots on disk between builds', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'content-cache-'));
+      try {
+        const store = new FileSnapshotStore(join(directory, 'nested', 'snapshot.json'));
+
+        expect(await store.load()).toBeNull();
+        await store.save(snapshot);
+        expect(await store.load()).toEqual(snapshot);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    test('should look up the slugs entries were last built with', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'content-cache-'));
+      try {
+        const env = {
+          CONTENTFUL_SPACE_ID: 'space',
+          CONTENTFUL_DELIVERY_TOKEN: 'delivery',
+          CONTENTFUL_PREVIEW_TOKEN: 'preview',
+          CONTENTFUL_CACHE_DIR: directory,
+        };
+        const lookup = createSnapshotSlugLookup(env);
+
+        expect(await lookup?.('post-1')).toBeUndefined();
+        await new FileSnapshotStore(join(directory, 'space-master.json')).save(snapshot);
+        expect(await lookup?.('post-1')).toBe('older');
+        expect(getSnapshotSlug(snapshot, 'faq-1')).toBeUndefined();
+        expect(createSnapshotSlugLookup({})).toBeUndefined();
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Cached Reads', () => {
+    const createService = (preview = new MockContentfulService()) => {
+      const loadSnapshot = vi.fn(async () => snapshot);
+      return { service: new CachedContentService(loadSnapshot, preview), loadSnapshot, preview };
+    };
+
+    test('should resolve links and localized fields like a Delivery API response', async () => {
+      const { service } = createService();
+      const result = await service.getBlogPost('older');
+
+      expect(result?.title).toBe('Post older');
+      expect(result?.author.name).toBe('Ada');
+      expect(result?.author.avatar?.fields.file.url).toBe('//images.ctfassets.net/image.png');
+      expect(result?.category.slug).toBe('performance');
+      expect(result?.featuredImage?.fields.title).toBe('Image');
+      expect(await service.getBlogPost('missing')).toBeNull();
+
+      const guide = await service.getGuide('guide');
+      expect(guide?.steps.map((step) => step.title)).toEqual(['Measure']);
+      expect(guide?.steps[0].image?.fields.file.url).toBe('//images.ctfassets.net/image.png');
+    });
+
+    test('should order and filter collections the way the live queries do', async () => {
+      const { service } = createService();
+
+      expect((await service.getAllBlogPosts()).map((entry) => entry.slug)).toEqual([
+        'newer',
+        'older',
+      ]);
+      expect((await service.getBlogPostsByTag('seo')).map((entry) => entry.slug)).toEqual([
+        'newer',
+      ]);
+      expect(await service.getBlogPostsByAuthor('ada')).toHaveLength(2);
+      expect(await service.getGuidesByCategory('performance')).toHaveLength(1);
+      expect((await service.getFaqEntries()).map((entry) => entry.order)).toEqual([1, 2]);
+      expect(await service.getCategory('performance')).toMatchObject({ name: 'Performance' });
+      expect(await service.getAuthors()).toHaveLength(1);
+    });
+
+    test('should load the snapshot once for every build-time read', async () => {
+      const { service, loadSnapshot } = createService();
+
+      await Promise.all([
+        service.getBlogPosts(1),
+        service.getGuides(),
+        service.getCategories(),
+        service.getFaqEntries(),
+      ]);
+      await service.getBlogPost('newer');
+
+      expect(loadSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    test('should read other locales from the same snapshot, falling back field by field', async () => {
+      const [older] = initialDelta.entries.filter((entry) => entry.sys.id === 'post-1');
+      const translated = applySyncDelta(snapshot, {
+        entries: [
+          {
+            ...older,
+            fields: {
+              ...older.fields,
+              title: { 'en-US': 'Post older', 'de-DE': 'Älterer Beitrag' },
+            },
+          },
+        ],
+        assets: [],
+        deletedEntries: [],
+        deletedAssets: [],
+        nextSyncToken: 'token-2',
+      });
+      const loadSnapshot = vi.fn(async () => translated);
+      const service = new CachedContentService(loadSnapshot, new MockContentfulService());
+      const german = service.withLocale('de-DE');
+
+      expect(await german.getBlogPost('older')).toMatchObject({
+        title: 'Älterer Beitrag',
+        author: { name: 'Ada' },
+      });
+      expect((await service.getBlogPost('older'))?.title).toBe('Post older');
+      expect(service.withLocale('de-DE')).toBe(german);
+      expect(loadSnapshot).toHaveBeenCalledTimes(1);
+    });
+
+    test('should serve preview reads from the preview service', async () => {
+      const { service, loadSnapshot, preview } = createService();
+      const getBlogPost = vi.spyOn(preview, 'getBlogPost');
+
+      await service.getBlogPost('draft', true);
+
+      expect(getBlogPost).toHaveBeenCalledWith('draft', true);
+      expect(loadSnapshot).not.toHaveBeenCalled();
+    });
+
+    test('Property: pages of any size concatenate to the full collection', async () => {
+      const { service } = createService();
+      const all = await service.getAllBlogPosts();
+
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 1, max: 5 }), async (pageSize) => {
+          const pages = await collectPages(service.iterateBlogPosts(pageSize));
+          return pages.map((entry) => entry.slug).join() === all.map((entry) => entry.slug).join();
+        }),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  test('should only be used when enabled for a build with Contentful credentials', () => {
+    const credentials = {
+      CONTENTFUL_SPACE_ID: 'space',
+      CONTENTFUL_DELIVERY_TOKEN: 'delivery',
+      CONTENTFUL_PREVIEW_TOKEN: 'preview',
+    };
+
+    expect(createCachedContentService(credentials)).toBeNull();
+    expect(createCachedContentService({ CONTENTFUL_SYNC_CACHE: 'true' })).toBeNull();
+    expect(
+      createCachedContentService({ ...credentials, CONTENTFUL_SYNC_CACHE: 'true' })
+    ).toBeInstanceOf(CachedContentService);
+  });
+});
@@ -0,0 +1,164 @@
+import fc from 'fast-check';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  ContentMemo,
+  DEFAULT_MEMO_TTL,
+  MemoizedContentService,
+  clearSharedContentMemo,
+  createMemoizedContentService,
+  getMemoTtl,
+} from '../lib/contentMemo.js';
+import { collectPages } from '../lib/contentful.js';
+import { MockContentfulService, mockBlogPosts } from '../lib/mocks.js';
+import { propertyTestConfig } from './setup';
+
+const [post] = mockBlogPosts;
+
+describe('Content Memoization', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Content Memo', () => {
+    test('should reuse settled results until the TTL expires', async () => {
+      let now = 0;
+      const memo = new ContentMemo({ ttl: 1000, now: () => now });
+      const load = vi.fn(async () => now);
+
+      await memo.get('delivery', 'key', load);
+      now = 999;
+      expect(await memo.get('delivery', 'key', load)).toBe(0);
+      now = 1000;
+      expect(await memo.get('delivery', 'key', load)).toBe(1000);
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    test('should keep delivery and preview results apart', async () => {
+      const memo = new ContentMemo({ previewTtl: 1000 });
+
+      await memo.get('delivery', 'key', async () => 'published');
+      expect(await memo.get('preview', 'key', async () => 'draft')).toBe('draft');
+      expect(await memo.get('delivery', 'key', async () => 'refetched')).toBe('published');
+
+      memo.clear('preview');
+      expect(memo.size('preview')).toBe(0);
+      expect(memo.size('delivery')).toBe(1);
+    });
+
+    test('should only share preview results while they are in flight', async () => {
+      const memo = new ContentMemo();
+      const load = vi.fn(async () => 'draft');
+
+      await Promise.all([memo.get('preview', 'key', load), memo.get('preview', 'key', load)]);
+      await memo.get('preview', 'key', load);
+
+      expect(load).toHaveBeenCalledTimes(2);
+      expect(memo.size('preview')).toBe(0);
+    });
+
+    test('should not cache failed requests', async () => {
+      const memo = new ContentMemo();
+
+      await expect(
+        memo.get('delivery', 'key', async () => {
+          throw new Error('Rate limited');
+        })
+      ).rejects.toThrow('Rate limited');
+      expect(await memo.get('delivery', 'key', async () => 'ok')).toBe('ok');
+    });
+
+    test('Property: concurrent requests load each distinct key once', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(fc.constantFrom('a', 'b', 'c', 'd'), { minLength: 1 }),
+          async (keys) => {
+            const memo = new ContentMemo();
+            const load = vi.fn(async () => 'value');
+
+            await Promise.all(keys.map((key) => memo.get('delivery', key, load)));
+
+            return load.mock.calls.length === new Set(keys).size;
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('Memoized Content Service', () => {
+    test('should coalesce identical reads across pages', async () => {
+      const inner = new MockContentfulService();
+      const getBlogPosts = vi.spyOn(inner, 'getBlogPosts');
+      const getBlogPost = vi.spyOn(inner, 'getBlogPost');
+      const service = new MemoizedContentService(inner);
+
+      await Promise.all([service.getBlogPosts(50), service.getBlogPosts(50)]);
+      await service.getBlogPosts(50);
+      await service.getBlogPosts(10);
+      await service.getBlogPost(post.slug);
+      await service.getBlogPost(post.slug, true);
+
+      expect(getBlogPosts).toHaveBeenCalledTimes(2);
+      expect(getBlogPost).toHaveBeenCalledTimes(2);
+      expect(getBlogPost).toHaveBeenLastCalledWith(post.slug, true);
+    });
+
+    test('should hand every caller its own copy of collections', async () => {
+      const service = new MemoizedContentService(new MockContentfulService());
+      const first = await service.getCategories();
+      first.reverse();
+
+      expect(await service.getCategories()).not.toEqual(first);
+    });
+
+    test('should keep results for different locales apart', async () => {
+      const inner = new MockContentfulService();
+      const getCategories = vi.spyOn(inner, 'getCategories');
+      const service = new MemoizedContentService(inner);
+
+      await service.getCategories();
+      await service.withLocale('de-DE').getCategories();
+      await service.withLocale('de-DE').getCategories();
+
+      expect(getCategories).toHaveBeenCalledTimes(2);
+    });
+
+    test('should memoize the pages behind collection iterators', async () => {
+      const inner = new MockContentfulService();
+      const getBlogPostsPage = vi.spyOn(inner, 'getBlogPostsPage');
+      const service = new MemoizedContentService(inner);
+
+      const all = await collectPages(service.iterateBlogPosts(2));
+      await collectPages(service.iterateBlogPosts(2));
+
+      expect(all).toHaveLength(mockBlogPosts.length);
+      expect(getBlogPostsPage).toHaveBeenCalledTimes(Math.ceil(mockBlogPosts.length / 2));
+    });
+  });
+
+  test('should read fresh content through the shared memo once it is cleared', async () => {
+    clearSharedContentMemo();
+    const inner = new MockContentfulService();
+    const getBlogPost = vi
+      .spyOn(inner, 'getBlogPost')
+      .mockResolvedValueOnce(post)
+      .mockResolvedValueOnce({ ...post, tags: ['republished'] });
+
+    const service = createMemoizedContentService(inner);
+    await service.getBlogPost(post.slug);
+    expect((await createMemoizedContentService(inner).getBlogPost(post.slug))?.tags).toEqual(
+      post.tags
+    );
+
+    clearSharedContentMemo('delivery');
+    expect((await service.getBlogPost(post.slug))?.tags).toEqual(['republished']);
+    expect(getBlogPost).toHaveBeenCalledTimes(2);
+  });
+
+  test('should read the delivery TTL in seconds from the environment', () => {
+    expect(getMemoTtl({ CONTENTFUL_MEMO_TTL: '120' })).toBe(120 * 1000);
+    expect(getMemoTtl({ CONTENTFUL_MEMO_TTL: '0' })).toBe(0);
+    expect(getMemoTtl({ CONTENTFUL_MEMO_TTL: 'soon' })).toBe(DEFAULT_MEMO_TTL);
+    expect(getMemoTtl({})).toBe(DEFAULT_MEMO_TTL);
+  });
+});
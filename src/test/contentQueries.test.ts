@@ -0,0 +1,166 @@
+import type { ContentfulClientApi } from 'contentful';
+import fc from 'fast-check';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Author, type Category, ContentfulService } from '../lib/contentful.js';
+import {
+  MockContentfulService,
+  mockAuthors,
+  mockBlogPosts,
+  mockCategories,
+  mockGuides,
+} from '../lib/mocks.js';
+import { propertyTestConfig } from './setup';
+
+type RawEntry = {
+  sys: { id: string; contentType: { sys: { id: string } } };
+  fields: Record<string, unknown>;
+};
+
+// Rebuild the raw Delivery API shape of a mock model, with links resolved
+function toEntry(contentType: string, model: { sys: { id: string } }, fields = {}): RawEntry {
+  return {
+    sys: { ...model.sys, contentType: { sys: { id: contentType } } },
+    fields: { ...model, ...fields },
+  };
+}
+
+const toAuthorEntry = (author: Author) => toEntry('author', author);
+const toCategoryEntry = (category: Category) => toEntry('category', category);
+
+function getEntriesByType(contentType: unknown): RawEntry[] {
+  if (contentType === 'blogPost') {
+    return mockBlogPosts.map((post) =>
+      toEntry('blogPost', post, {
+        author: toAuthorEntry(post.author),
+        category: toCategoryEntry(post.category),
+      })
+    );
+  }
+  if (contentType === 'guide') {
+    return mockGuides.map((guide) =>
+      toEntry('guide', guide, {
+        // Mock steps are inline, so give each one the sys of a linked guideStep entry
+        steps: guide.steps.map((step, index) =>
+          toEntry('guideStep', { ...step, sys: { id: `${guide.sys.id}-step-${index}` } })
+        ),
+        category: toCategoryEntry(guide.category),
+      })
+    );
+  }
+  return [];
+}
+
+function readPath(entry: RawEntry, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], entry);
+}
+
+const RESERVED_PARAMETERS = ['content_type', 'skip', 'limit', 'order', 'include'];
+
+// Evaluate a query with the Delivery API's equality, array-contains and reference semantics
+async function getEntries(query: Record<string, unknown>) {
+  for (const key of Object.keys(query)) {
+    const link = key.match(/^(fields\.\w+)\.fields\./);
+    if (link && !(`${link[1]}.sys.contentType.sys.id` in query)) {
+      throw new Error(`InvalidQuery: searching on ${link[1]} requires its content type`);
+    }
+  }
+
+  const order = (query.order as string[]) ?? [];
+  const matches = getEntriesByType(query.content_type)
+    .filter((entry) =>
+      Object.entries(query)
+        .filter(([key]) => !RESERVED_PARAMETERS.includes(key))
+        .every(([key, value]) => {
+          const actual = readPath(entry, key);
+          return Array.isArray(actual) ? actual.includes(value) : actual === value;
+        })
+    )
+    .sort((a, b) => {
+      for (const field of order) {
+        const direction = field.startsWith('-') ? -1 : 1;
+        const path = field.replace(/^-/, '');
+        const left = String(readPath(a, path));
+        const right = String(readPath(b, path));
+        if (left !== right) return left < right ? -direction : direction;
+      }
+      return 0;
+    });
+
+  const skip = Number(query.skip ?? 0);
+  const limit = Number(query.limit ?? 100);
+  return { items: matches.slice(skip, skip + limit), total: matches.length, skip, limit };
+}
+
+describe('Content Query Filters', () => {
+  const client = { getEntries: vi.fn(getEntries) } as unknown as ContentfulClientApi<undefined>;
+  const contentfulService = new ContentfulService(client, client);
+  const mockService = new MockContentfulService();
+
+  // The mock service simulates API latency with timers
+  const settle = async <T>(promise: Promise<T>): Promise<T> => {
+    await vi.runAllTimersAsync();
+    return promise;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should filter blog posts by category, tag and author', async () => {
+    const post = mockBlogPosts[0];
+
+    const [byCategory, byTag, byAuthor] = await settle(
+      Promise.all([
+        contentfulService.getBlogPostsByCategory(post.category.slug),
+        contentfulService.getBlogPostsByTag(post.tags[0]),
+        contentfulService.getBlogPostsByAuthor(post.author.slug),
+      ])
+    );
+
+    expect(byCategory.every((result) => result.category.slug === post.category.slug)).toBe(true);
+    expect(byTag.every((result) => result.tags.includes(post.tags[0]))).toBe(true);
+    expect(byAuthor.map((result) => result.slug)).toContain(post.slug);
+  });
+
+  it('should return nothing for unknown filter values', async () => {
+    expect(await settle(mockService.getGuidesByCategory('missing-category'))).toEqual([]);
+    expect(await settle(contentfulService.getBlogPostsByTag('missing-tag'))).toEqual([]);
+  });
+
+  it('Property: Contentful and mock services agree on every filter', async () => {
+    const pick = (values: string[]) => fc.oneof(fc.constantFrom(...values), fc.string());
+    const categorySlugs = mockCategories.map((category) => category.slug);
+    const filters = fc.oneof(
+      fc.tuple(fc.constant('getBlogPostsByCategory' as const), pick(categorySlugs)),
+      fc.tuple(
+        fc.constant('getBlogPostsByTag' as const),
+        pick(mockBlogPosts.flatMap((p) => p.tags))
+      ),
+      fc.tuple(
+        fc.constant('getBlogPostsByAuthor' as const),
+        pick(mockAuthors.map((author) => author.slug))
+      ),
+      fc.tuple(fc.constant('getGuidesByCategory' as const), pick(categorySlugs))
+    );
+
+    await fc.assert(
+      fc.asyncProperty(filters, async ([method, value]) => {
+        const [expected, actual] = await settle(
+          Promise.all([mockService[method](value), contentfulService[method](value)])
+        );
+
+        return (
+          JSON.stringify(actual.map((item) => item.slug)) ===
+          JSON.stringify(expected.map((item) => item.slug))
+        );
+      }),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+});
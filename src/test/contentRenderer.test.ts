@@ -0,0 +1,224 @@
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import {
+  type AnchorRegistry,
+  ContentRenderer,
+  buildTableOfContents,
+  createAnchorId,
+  getPlainText,
+  sanitizeUrl,
+  slugifyHeading,
+} from '../lib/contentRenderer.js';
+import type { RichTextDocument } from '../lib/contentful.js';
+import { mockAssets, mockBlogPosts } from '../lib/mocks.js';
+import { UrlPatternManager } from '../lib/urlPatterns.js';
+import { propertyTestConfig } from './setup';
+
+const renderer = new ContentRenderer(new UrlPatternManager('https://example.com'));
+
+function renderHtml(body: string | RichTextDocument): string {
+  return renderer
+    .render(body)
+    .blocks.map((block) => (block.type === 'html' ? block.html : `[asset:${block.asset.sys.id}]`))
+    .join('');
+}
+
+function text(value: string, marks: string[] = []) {
+  return { nodeType: 'text' as const, value, marks: marks.map((type) => ({ type })), data: {} };
+}
+
+describe('Content Renderer', () => {
+  describe('Markdown bodies', () => {
+    test('should render headings with anchor IDs and collect them', () => {
+      const result = renderer.render('# Title\n\n## Getting Started\n\n### Install the CLI');
+
+      expect(result.headings).toEqual([
+        { depth: 2, text: 'Title', id: 'title' },
+        { depth: 2, text: 'Getting Started', id: 'getting-started' },
+        { depth: 3, text: 'Install the CLI', id: 'install-the-cli' },
+      ]);
+
+      const html = renderHtml('## Getting Started');
+      expect(html).toContain('<h2 id="getting-started">Getting Started');
+      expect(html).toContain('href="#getting-started"');
+    });
+
+    test('should deduplicate repeated heading IDs', () => {
+      const result = renderer.render('## Setup\n\n## Setup\n\n## Setup');
+      expect(result.headings.map((heading) => heading.id)).toEqual(['setup', 'setup-2', 'setup-3']);
+    });
+
+    test('should render lists, emphasis, inline code and fenced code blocks', () => {
+      const html = renderHtml(
+        '1. **Bold** item\n2. *Italic* item\n\n- `inline`\n\n```astro\n<Component client:visible />\n```'
+      );
+
+      expect(html).toContain('<ol><li><p><strong>Bold</strong> item</p></li>');
+      expect(html).toContain('<em>Italic</em>');
+      expect(html).toContain('<ul><li><p><code>inline</code></p></li></ul>');
+      expect(html).toContain('<pre><code>&lt;Component client:visible /&gt;</code></pre>');
+    });
+
+    test('should render the mock blog post bodies as structured HTML', () => {
+      const result = renderer.render(mockBlogPosts[0].content);
+      const html = renderHtml(mockBlogPosts[0].content);
+
+      expect(result.headings.map((heading) => heading.id)).toContain('selective-hydration');
+      expect(html).toContain('<ol>');
+      expect(html).not.toContain('<br>');
+    });
+  });
+
+  describe('Sanitization', () => {
+    test('should escape raw HTML in Markdown', () => {
+      const html = renderHtml('Hello <script>alert(1)</script> <img src=x onerror=alert(1)>');
+
+      expect(html).not.toContain('<script');
+      expect(html).not.toContain('<img');
+      expect(html).toContain('&lt;script&gt;');
+    });
+
+    test('should drop unsafe link protocols', () => {
+      expect(renderHtml('[click](javascript:void)')).toBe('<p>click</p>');
+      expect(renderHtml('[docs](https://docs.astro.build)')).toContain(
+        '<a href="https://docs.astro.build" rel="noopener noreferrer">docs</a>'
+      );
+      expect(renderHtml('[faq](/faq)')).toContain('<a href="/faq">faq</a>');
+    });
+
+    test('should reject obfuscated script URLs', () => {
+      expect(sanitizeUrl('java\tscript:alert(1)')).toBeNull();
+      expect(sanitizeUrl(' JAVASCRIPT:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,<script>')).toBeNull();
+      expect(sanitizeUrl('//cdn.example.com/a.png')).toBe('https://cdn.example.com/a.png');
+      expect(sanitizeUrl('mailto:hello@example.com')).toBe('mailto:hello@example.com');
+    });
+
+    test('Property: rendered Markdown never contains executable markup', () => {
+      fc.assert(
+        fc.property(fc.string(), fc.string(), (prefix, suffix) => {
+          const html = renderHtml(`${prefix}<script>${suffix}</script>[x](javascript:${suffix})`);
+          return !html.includes('<script') && !html.includes('href="javascript:');
+        }),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('Rich Text documents', () => {
+    const document: RichTextDocument = {
+      nodeType: 'document',
+      data: {},
+      content: [
+        { nodeType: 'heading-2', data: {}, content: [text('Overview')] },
+        {
+          nodeType: 'paragraph',
+          data: {},
+          content: [
+            text('Read '),
+            {
+              nodeType: 'entry-hyperlink',
+              data: {
+                target: {
+                  sys: { id: 'post-1', contentType: { sys: { id: 'blogPost' } } },
+                  fields: { slug: 'technical-seo-best-practices', title: 'Best Practices' },
+                },
+              },
+              content: [text('this post', ['bold'])],
+            },
+            text(' first.'),
+          ],
+        },
+        { nodeType: 'embedded-asset-block', data: { target: mockAssets[0] }, content: [] },
+        {
+          nodeType: 'paragraph',
+          data: {},
+          content: [
+            {
+              nodeType: 'entry-hyperlink',
+              data: { target: { sys: { id: 'unresolved' } } },
+              content: [text('missing entry')],
+            },
+          ],
+        },
+      ],
+    };
+
+    test('should resolve entry hyperlinks through UrlPatternManager', () => {
+      expect(renderHtml(document)).toContain(
+        '<a href="/blog/technical-seo-best-practices"><strong>this post</strong></a>'
+      );
+    });
+
+    test('should render unresolved entry links as plain text', () => {
+      expect(renderHtml(document)).toContain('<p>missing entry</p>');
+    });
+
+    test('should split embedded image assets into separate blocks', () => {
+      const result = renderer.render(document);
+
+      expect(result.blocks.map((block) => block.type)).toEqual(['html', 'asset', 'html']);
+      const assetBlock = result.blocks[1];
+      expect(assetBlock.type === 'asset' && assetBlock.asset.fields.file.url).toBe(
+        mockAssets[0].fields.file.url
+      );
+    });
+
+    test('should extract plain text from documents and Markdown', () => {
+      expect(getPlainText(document)).toBe('Overview Read this post first. missing entry');
+      expect(getPlainText('## Heading\n\nSome **bold** text')).toBe('Heading Some bold text');
+    });
+  });
+
+  describe('Table of contents', () => {
+    test('should list only h2 and h3 headings in document order', () => {
+      const { headings } = renderer.render('## Intro\n\n### Setup\n\n#### Details\n\n## Wrap-up');
+
+      expect(buildTableOfContents(headings)).toEqual([
+        { depth: 2, text: 'Intro', id: 'intro' },
+        { depth: 3, text: 'Setup', id: 'setup' },
+        { depth: 2, text: 'Wrap-up', id: 'wrap-up' },
+      ]);
+    });
+
+    test('should keep anchors unique across bodies rendered onto one page', () => {
+      const anchorIds: AnchorRegistry = new Map();
+      const overview = renderer.render('## Setup', anchorIds);
+      const stepId = createAnchorId('Setup', anchorIds);
+      const step = renderer.render('## Setup', anchorIds);
+
+      expect([overview.headings[0].id, stepId, step.headings[0].id]).toEqual([
+        'setup',
+        'setup-2',
+        'setup-3',
+      ]);
+    });
+
+    test('should not reuse a suffixed ID claimed by a literal heading', () => {
+      const { headings } = renderer.render('## Setup 2\n\n## Setup\n\n## Setup');
+      expect(headings.map((heading) => heading.id)).toEqual(['setup-2', 'setup', 'setup-3']);
+    });
+
+    test('Property: anchor IDs are unique for any heading sequence', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.constantFrom('Setup', 'Setup 2', 'setup-3', '!!!', 'Intro')),
+          (texts) => {
+            const anchorIds: AnchorRegistry = new Map();
+            const ids = texts.map((text) => createAnchorId(text, anchorIds));
+            return new Set(ids).size === ids.length;
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('slugifyHeading', () => {
+    test('should produce lowercase hyphenated IDs', () => {
+      expect(slugifyHeading('Largest Contentful Paint (LCP)')).toBe('largest-contentful-paint-lcp');
+      expect(slugifyHeading('Café Résumé')).toBe('cafe-resume');
+      expect(slugifyHeading('!!!')).toBe('section');
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import type { ContentfulClientApi } from 'contentful';
+import fc from 'fast-check';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  CONTENT_SCHEMAS,
+  ContentValidationError,
+  ContentValidator,
+  getContentValidationPolicy,
+  scanContentHealth,
+  validateContentEntry,
+} from '../lib/contentValidation.js';
+import {
+  type ContentfulEntry,
+  ContentfulService,
+  collectPages,
+  transformAuthor,
+  transformBlogPost,
+  transformGuide,
+} from '../lib/contentful.js';
+import { propertyTestConfig } from './setup';
+
+const sys = (id: string, contentType: string) => ({
+  id,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  contentType: { sys: { id: contentType } },
+});
+
+const author = { sys: sys('author-1', 'author'), fields: { name: 'Ada', slug: 'ada' } };
+const category = {
+  sys: sys('category-1', 'category'),
+  fields: { name: 'Performance', slug: 'performance' },
+};
+
+const step = (id: string, fields: Record<string, unknown>) => ({
+  sys: sys(id, 'guideStep'),
+  fields,
+});
+
+const post = (id: string, fields: Record<string, unknown> = {}) =>
+  ({
+    sys: sys(id, 'blogPost'),
+    fields: {
+      title: `Post ${id}`,
+      slug: id,
+      content: 'Body',
+      author,
+      category,
+      publishedAt: '2024-01-01T00:00:00Z',
+      ...fields,
+    },
+  }) as unknown as ContentfulEntry;
+
+const guide = (fields: Record<string, unknown> = {}) =>
+  ({
+    sys: sys('guide-1', 'guide'),
+    fields: {
+      title: 'Guide',
+      slug: 'guide',
+      content: 'Body',
+      difficulty: 'beginner',
+      estimatedTime: 30,
+      steps: [step('step-1', { title: 'Measure', content: 'Run Lighthouse' })],
+      category,
+      publishedAt: '2024-01-01T00:00:00Z',
+      ...fields,
+    },
+  }) as unknown as ContentfulEntry;
+
+// Delivery API stand-in that pages through a fixed list of blog posts
+function createService(entries: ContentfulEntry[], validator: ContentValidator) {
+  const getEntries = vi.fn(async (query: { content_type: string; skip: number; limit: number }) => {
+    const items = query.content_type === 'blogPost' ? entries : [];
+    return {
+      items: items.slice(query.skip, query.skip + query.limit),
+      total: items.length,
+      skip: query.skip,
+      limit: query.limit,
+    };
+  });
+  const client = { getEntries } as unknown as ContentfulClientApi<undefined>;
+  return new ContentfulService(client, client, undefined, validator);
+}
+
+describe('Content Validation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Entry Schemas', () => {
+    test('should accept entries that match their content type', () => {
+      expect(validateContentEntry('blogPost', post('post-1'))).toEqual([]);
+      expect(validateContentEntry('guide', guide())).toEqual([]);
+    });
+
+    test('should report the field path and reason of every problem', () => {
+      const issues = validateContentEntry(
+        'guide',
+        guide({
+          difficulty: 'expert',
+          estimatedTime: '30 minutes',
+          steps: [
+            step('step-1', { title: 'Measure', content: 'Run Lighthouse' }),
+            step('step-2', { content: 42 }),
+            { sys: { type: 'Link', linkType: 'Entry', id: 'step-draft' } },
+            category,
+          ],
+          category: { ...category, fields: { slug: 'performance' } },
+        })
+      );
+
+      expect(issues).toEqual([
+        { path: 'difficulty', reason: 'must be one of beginner, intermediate, advanced' },
+        { path: 'estimatedTime', reason: 'must be a number' },
+        { path: 'steps[1].title', reason: 'is required' },
+        { path: 'steps[1].content', reason: 'must be Markdown or a Rich Text document' },
+        { path: 'steps[3]', reason: 'must link to a guideStep entry, not category' },
+        { path: 'category.name', reason: 'is required' },
+      ]);
+    });
+
+    test('should reject unresolved required links but tolerate missing optional assets', () => {
+      const unresolved = (linkType: string) => ({ sys: { type: 'Link', linkType, id: 'missing' } });
+
+      expect(
+        validateContentEntry('blogPost', post('post-1', { author: unresolved('Entry') }))
+      ).toEqual([{ path: 'author', reason: 'must link to a published author entry' }]);
+      expect(
+        validateContentEntry('blogPost', post('post-1', { featuredImage: unresolved('Asset') }))
+      ).toEqual([]);
+      expect(validateContentEntry('blogPost', post('post-1', { category: author }))[0].reason).toBe(
+        'must link to a category entry, not author'
+      );
+    });
+
+    test('should throw typed errors from the transforms', () => {
+      const invalid = { sys: sys('author-2', 'author'), fields: { slug: 'nameless' } };
+
+      expect(() => transformAuthor(invalid as unknown as ContentfulEntry)).toThrow(
+        new ContentValidationError('author', 'author-2', [{ path: 'name', reason: 'is required' }])
+      );
+      expect(transformGuide(guide()).steps).toEqual([
+        { title: 'Measure', content: 'Run Lighthouse', image: undefined },
+      ]);
+      expect(
+        transformGuide(
+          guide({ steps: [{ sys: { type: 'Link', linkType: 'Entry', id: 'step-draft' } }] })
+        ).steps
+      ).toEqual([]);
+    });
+
+    test('Property: clearing any required field is reported at its path', () => {
+      const required = Object.entries(CONTENT_SCHEMAS.guide)
+        .filter(([, rule]) => rule.required)
+        .map(([name]) => name);
+
+      fc.assert(
+        fc.property(
+          fc.constantFrom(...required),
+          fc.constantFrom(null, undefined, ''),
+          (name, value) =>
+            validateContentEntry('guide', guide({ [name]: value })).some(
+              (issue) => issue.path === name && issue.reason === 'is required'
+            )
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('Validation Policy', () => {
+    test('should skip invalid entries without losing the rest of a paged collection', async () => {
+      vi.spyOn(console, 'warn');
+      const validator = new ContentValidator('skip');
+      const entries = [post('post-1'), post('post-2', { publishedAt: 'soon' }), post('post-3')];
+      const service = createService(entries, validator);
+
+      const pages = await collectPages(service.iterateBlogPosts(2));
+
+      expect(pages.map((entry) => entry.slug)).toEqual(['post-1', 'post-3']);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Skipping Invalid blogPost entry post-2: publishedAt must be an ISO 8601 date'
+      );
+      expect(await service.getBlogPost('post-2')).toBeNull();
+    });
+
+    test('should fail on invalid entries when configured to', async () => {
+      const service = createService(
+        [post('post-1', { tags: 'astro' })],
+        new ContentValidator('fail')
+      );
+
+      await expect(service.getBlogPosts()).rejects.toThrow(
+        'Invalid blogPost entry post-1: tags must be a list of strings'
+      );
+      expect(getContentValidationPolicy({ CONTENT_VALIDATION_POLICY: 'fail' })).toBe('fail');
+      expect(getContentValidationPolicy({})).toBe('skip');
+    });
+  });
+
+  describe('Content Health Report', () => {
+    test('should list broken entries found by a full scan', async () => {
+      const validator = new ContentValidator('skip');
+      const service = createService(
+        [post('post-1'), post('post-2', { author: { ...author, fields: { name: 'Ada' } } })],
+        validator
+      );
+
+      const report = await scanContentHealth(service, validator);
+
+      expect(report).toMatchObject({ policy: 'skip', healthy: false, checked: 2 });
+      expect(report.invalid).toEqual([
+        {
+          entryId: 'post-2',
+          contentType: 'blogPost',
+          source: 'delivery',
+          issues: [{ path: 'author.slug', reason: 'is required' }],
+        },
+      ]);
+    });
+
+    test('should drop entries from the report once they are fixed', () => {
+      const validator = new ContentValidator('skip');
+
+      validator.transform(post('post-1', { title: 7 }), transformBlogPost, 'preview');
+      expect(validator.report().invalid).toHaveLength(1);
+
+      validator.transform(post('post-1'), transformBlogPost, 'preview');
+      expect(validator.report()).toMatchObject({ healthy: true, checked: 1, invalid: [] });
+    });
+  });
+});
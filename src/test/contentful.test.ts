@@ -1,5 +1,25 @@
-import { describe, expect, it } from 'vitest';
-import { MockContentfulService, createContentService } from '../lib/mocks.js';
+import type { ContentfulClientApi } from 'contentful';
+import fc from 'fast-check';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type ContentPage,
+  ContentfulService,
+  collectPages,
+  iteratePages,
+  resolvePageOptions,
+} from '../lib/contentful.js';
+import { MockContentfulService, createContentService, mockBlogPosts } from '../lib/mocks.js';
+import { propertyTestConfig } from './setup';
+
+// Serve a fixed array through the paged fetch signature
+function arrayPageFetcher<T>(items: T[]) {
+  return async ({ skip, limit }: { skip: number; limit: number }): Promise<ContentPage<T>> => ({
+    items: items.slice(skip, skip + limit),
+    total: items.length,
+    skip,
+    limit,
+  });
+}
 
 describe('Contentful Integration', () => {
   it('should create mock service when no credentials are provided', () => {
@@ -56,6 +76,23 @@ describe('Contentful Integration', () => {
     expect(categories[0]).toHaveProperty('color');
   });
 
+  it('should fetch authors from mock service', async () => {
+    const service = new MockContentfulService();
+    const authors = await service.getAuthors();
+
+    expect(authors.length).toBeGreaterThan(0);
+    expect(authors.map((author) => author.name)).toEqual(
+      [...authors.map((author) => author.name)].sort((a, b) => a.localeCompare(b))
+    );
+  });
+
+  it('should fetch single author by slug', async () => {
+    const service = new MockContentfulService();
+
+    expect((await service.getAuthor('alex-chen'))?.name).toBe('Alex Chen');
+    expect(await service.getAuthor('non-existent-author')).toBeNull();
+  });
+
   it('should fetch FAQ entries from mock service', async () => {
     const service = new MockContentfulService();
     const faqs = await service.getFaqEntries();
@@ -78,4 +115,84 @@ describe('Contentful Integration', () => {
     expect(post?.category).toHaveProperty('name');
     expect(Array.isArray(post?.tags)).toBe(true);
   });
+
+  describe('Paged collections', () => {
+    it('should return a page with the collection total', async () => {
+      const service = new MockContentfulService();
+      const page = await service.getBlogPostsPage({ skip: 1, limit: 1 });
+
+      expect(page.items).toHaveLength(1);
+      expect(page.total).toBe(mockBlogPosts.length);
+      expect(page.skip).toBe(1);
+      expect(page.items[0].slug).toBe((await service.getBlogPosts(2))[1].slug);
+    });
+
+    it('should walk every page with the async iterator', async () => {
+      const service = new MockContentfulService();
+      const pages: ContentPage<unknown>[] = [];
+      for await (const page of service.iterateGuides(1)) {
+        pages.push(page);
+      }
+
+      const allGuides = await service.getAllGuides();
+      expect(pages).toHaveLength(allGuides.length);
+      expect(pages.flatMap((page) => page.items)).toEqual(allGuides);
+    });
+
+    it('should fetch complete collections past the API page cap', async () => {
+      const entries = Array.from({ length: 2500 }, (_, index) => index);
+      const getEntries = vi.fn(async ({ skip, limit }: { skip: number; limit: number }) => ({
+        items: entries.slice(skip, skip + limit).map((index) => ({
+          sys: { id: `post-${index}`, createdAt: '', updatedAt: '' },
+          fields: {
+            title: `Post ${index}`,
+            slug: `post-${index}`,
+            content: 'Body',
+            author: { sys: { id: 'author' }, fields: { name: 'Author', slug: 'author' } },
+            category: { sys: { id: 'category' }, fields: { name: 'Category', slug: 'category' } },
+            publishedAt: '2024-01-01T00:00:00Z',
+          },
+        })),
+        total: entries.length,
+        skip,
+        limit,
+      }));
+      const client = { getEntries } as unknown as ContentfulClientApi<undefined>;
+      const service = new ContentfulService(client, client);
+
+      const posts = await service.getAllBlogPosts();
+
+      expect(posts).toHaveLength(entries.length);
+      expect(new Set(posts.map((post) => post.slug)).size).toBe(entries.length);
+      expect(getEntries).toHaveBeenCalledTimes(25);
+      expect(getEntries.mock.calls.at(-1)?.[0]).toMatchObject({ skip: 2400, limit: 100 });
+    });
+
+    it('should reject invalid page options and clamp oversized limits', () => {
+      expect(() => resolvePageOptions({ skip: -1 })).toThrow('Invalid page skip');
+      expect(() => resolvePageOptions({ limit: 0 })).toThrow('Invalid page limit');
+      expect(resolvePageOptions({ limit: 5000 })).toEqual({ skip: 0, limit: 1000 });
+    });
+
+    it('should stop walking when a page comes back empty', async () => {
+      const fetchPage = vi.fn(async () => ({ items: [], total: 10, skip: 0, limit: 5 }));
+
+      expect(await collectPages(iteratePages(fetchPage, 5))).toEqual([]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('Property: walking all pages yields every item exactly once in order', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(fc.integer(), { maxLength: 200 }),
+          fc.integer({ min: 1, max: 50 }),
+          async (items, pageSize) => {
+            const collected = await collectPages(iteratePages(arrayPageFetcher(items), pageSize));
+            return JSON.stringify(collected) === JSON.stringify(items);
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
 });
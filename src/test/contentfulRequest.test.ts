@@ -0,0 +1,185 @@
+import type { ContentfulClientApi } from 'contentful';
+import fc from 'fast-check';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { ContentfulService } from '../lib/contentful.js';
+import {
+  ContentAuthError,
+  ContentNetworkError,
+  ContentNotFoundError,
+  ContentRateLimitError,
+  ContentRequestError,
+  ContentServerError,
+  ContentTimeoutError,
+  ContentfulRequestPolicy,
+  RateLimitTracker,
+  getRequestPolicyOptions,
+  toContentRequestError,
+  wrapContentError,
+} from '../lib/contentfulRequest.js';
+import { propertyTestConfig } from './setup';
+
+// Shaped like the errors contentful-sdk-core throws for API error responses
+function sdkError(name: string, status: number, message = 'Request failed') {
+  const error = new Error(JSON.stringify({ status, statusText: name, message, details: {} }));
+  error.name = name;
+  return error;
+}
+
+// Shaped like the axios errors the SDK hands to its responseLogger
+const rateLimitedResponse = (reset: string) => ({
+  response: { status: 429, headers: { 'x-contentful-ratelimit-reset': reset } },
+});
+
+function createPolicy(options: ConstructorParameters<typeof ContentfulRequestPolicy>[0] = {}) {
+  let now = 0;
+  const waits: number[] = [];
+  const rateLimits = new RateLimitTracker(() => now);
+  const policy = new ContentfulRequestPolicy(options, rateLimits, async (ms) => {
+    waits.push(ms);
+    now += ms;
+  });
+  return { policy, rateLimits, waits };
+}
+
+describe('Contentful Request Policy', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Error Classification', () => {
+    test('should map SDK and network failures to typed errors', () => {
+      const classify = (error: unknown) => toContentRequestError(error, 'Request failed');
+
+      expect(classify(sdkError('NotFound', 404))).toBeInstanceOf(ContentNotFoundError);
+      expect(classify(sdkError('RateLimitExceeded', 429))).toBeInstanceOf(ContentRateLimitError);
+      expect(classify(sdkError('AccessTokenInvalid', 401))).toBeInstanceOf(ContentAuthError);
+      expect(classify(sdkError('503 Service Unavailable', 503))).toBeInstanceOf(ContentServerError);
+      expect(classify(sdkError('InvalidQuery', 400)).kind).toBe('request');
+      expect(
+        classify(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      ).toBeInstanceOf(ContentNetworkError);
+      expect(
+        classify(Object.assign(new Error('timeout'), { code: 'ECONNABORTED' }))
+      ).toBeInstanceOf(ContentTimeoutError);
+    });
+
+    test('should keep the error type when adding caller context', () => {
+      const cause = toContentRequestError(sdkError('AccessDenied', 403), 'getEntries failed');
+      const wrapped = wrapContentError(cause, 'Failed to fetch blog posts');
+
+      expect(wrapped).toBeInstanceOf(ContentAuthError);
+      expect(wrapped.message).toBe('Failed to fetch blog posts');
+      expect(wrapped.status).toBe(403);
+      expect(wrapped.cause).toBe(cause);
+      expect(wrapped.retryable).toBe(false);
+    });
+  });
+
+  describe('Retries', () => {
+    test('should retry transient failures with exponential backoff', async () => {
+      const { policy, waits } = createPolicy({ baseDelay: 100 });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(sdkError('ServerError', 500))
+        .mockRejectedValueOnce(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))
+        .mockResolvedValue('entries');
+
+      expect(await policy.run('getEntries', request)).toBe('entries');
+      expect(waits).toEqual([100, 200]);
+    });
+
+    test('should wait for the rate limit reset Contentful reports', async () => {
+      const { policy, rateLimits, waits } = createPolicy({ baseDelay: 100 });
+      const request = vi.fn(async () => {
+        if (request.mock.calls.length === 1) {
+          rateLimits.observe(rateLimitedResponse('2'));
+          throw sdkError('RateLimitExceeded', 429);
+        }
+        return 'entries';
+      });
+
+      expect(await policy.run('getEntries', request)).toBe('entries');
+      expect(waits).toEqual([2000]);
+    });
+
+    test('should fail fast on permanent errors and long rate limit resets', async () => {
+      const { policy, rateLimits, waits } = createPolicy({ maxDelay: 5000 });
+
+      await expect(
+        policy.run('getEntries', async () => Promise.reject(sdkError('AccessTokenInvalid', 401)))
+      ).rejects.toBeInstanceOf(ContentAuthError);
+
+      const limited = policy.run('getEntries', async () => {
+        rateLimits.observe(rateLimitedResponse('3600'));
+        throw sdkError('RateLimitExceeded', 429);
+      });
+      await expect(limited).rejects.toMatchObject({
+        kind: 'rate-limited',
+        retryAfter: 3600 * 1000,
+      });
+      expect(waits).toEqual([]);
+    });
+
+    test('should give up after the configured number of retries', async () => {
+      const { policy, waits } = createPolicy({ retries: 2 });
+      const request = vi.fn(async () => Promise.reject(sdkError('ServerError', 502)));
+
+      await expect(policy.run('getEntries', request)).rejects.toBeInstanceOf(ContentServerError);
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(waits).toHaveLength(2);
+    });
+
+    test('should time out calls that never settle', async () => {
+      const policy = new ContentfulRequestPolicy({ retries: 0, timeout: 10 });
+
+      await expect(
+        policy.run('getEntries', () => new Promise(() => undefined))
+      ).rejects.toBeInstanceOf(ContentTimeoutError);
+    });
+
+    test('Property: retry delays grow with each attempt but never exceed the maximum', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 1, max: 1000 }),
+          fc.integer({ min: 1000, max: 60000 }),
+          fc.integer({ min: 0, max: 20 }),
+          (baseDelay, maxDelay, attempt) => {
+            const { policy } = createPolicy({ baseDelay, maxDelay, retries: 30 });
+            const error = new ContentServerError('Server error');
+            const current = policy.getRetryDelay(error, attempt) ?? 0;
+            const next = policy.getRetryDelay(error, attempt + 1) ?? 0;
+
+            return current <= next && next <= maxDelay;
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  test('should configure the SDK to leave retries and rate limit headers to the policy', () => {
+    const { policy, rateLimits } = createPolicy({ timeout: 5000 });
+    const { retryOnError, timeout, responseLogger } = policy.clientOptions;
+
+    responseLogger?.(rateLimitedResponse('1') as never);
+
+    expect(retryOnError).toBe(false);
+    expect(timeout).toBe(5000);
+    expect(rateLimits.remaining()).toBe(1000);
+    expect(getRequestPolicyOptions({ CONTENTFUL_REQUEST_RETRIES: '0' }).retries).toBe(0);
+    expect(getRequestPolicyOptions({ CONTENTFUL_REQUEST_TIMEOUT: 'soon' }).timeout).toBe(15000);
+  });
+
+  test('should surface typed errors from ContentfulService', async () => {
+    const getEntries = vi.fn(async () => Promise.reject(sdkError('AccessTokenInvalid', 401)));
+    const client = { getEntries } as unknown as ContentfulClientApi<undefined>;
+    const service = new ContentfulService(client, client);
+
+    const failure = service.getBlogPosts(5);
+
+    await expect(failure).rejects.toBeInstanceOf(ContentAuthError);
+    await expect(failure).rejects.toThrow('Failed to fetch blog posts');
+    await expect(failure).rejects.toBeInstanceOf(ContentRequestError);
+    expect(getEntries).toHaveBeenCalledTimes(1);
+  });
+});
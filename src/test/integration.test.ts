@@ -12,6 +12,8 @@ describe('Content Service Integration', () => {
     expect(typeof service.getGuides).toBe('function');
     expect(typeof service.getCategory).toBe('function');
     expect(typeof service.getCategories).toBe('function');
+    expect(typeof service.getAuthor).toBe('function');
+    expect(typeof service.getAuthors).toBe('function');
     expect(typeof service.getFaqEntries).toBe('function');
   });
 
@@ -0,0 +1,109 @@
+import type { ContentfulClientApi } from 'contentful';
+import fc from 'fast-check';
+import { describe, expect, test, vi } from 'vitest';
+import { createContentTypeStructuredDataGenerator } from '../lib/contentTypeStructuredData.js';
+import { ContentfulService } from '../lib/contentful.js';
+import { createLocaleConfig, getLocaleConfig, localizePath } from '../lib/locales.js';
+import { mockBlogPosts, mockGuides } from '../lib/mocks.js';
+import { createSchemaGenerator } from '../lib/schemas.js';
+import { UrlPatternManager } from '../lib/urlPatterns.js';
+import { propertyTestConfig } from './setup';
+
+const locales = createLocaleConfig(['en-US', 'de-DE', 'pt-BR', 'pt-PT']);
+const urlManager = new UrlPatternManager('https://example.com/', locales);
+const [post] = mockBlogPosts;
+
+describe('Locales', () => {
+  describe('Locale Config', () => {
+    test('should prefix every locale but the default with its language', () => {
+      expect(locales.defaultLocale).toEqual({ code: 'en-US', prefix: '' });
+      expect(locales.locales.map((locale) => locale.prefix)).toEqual(['', 'de', 'pt-br', 'pt-pt']);
+      expect(localizePath('/blog/post', locales.locales[1])).toBe('/de/blog/post');
+      expect(localizePath('/', locales.locales[1])).toBe('/de/');
+      expect(localizePath('/blog/post', locales.defaultLocale)).toBe('/blog/post');
+    });
+
+    test('should read SITE_LOCALES and fall back to a single default locale', () => {
+      expect(getLocaleConfig({ SITE_LOCALES: 'fr-FR, en-US,fr-FR,not a locale' }).locales).toEqual([
+        { code: 'fr-FR', prefix: '' },
+        { code: 'en-US', prefix: 'en' },
+      ]);
+      expect(getLocaleConfig({}).locales).toEqual([{ code: 'en-US', prefix: '' }]);
+    });
+  });
+
+  describe('Localized URLs', () => {
+    test('should generate locale-prefixed post and guide URLs', () => {
+      const german = urlManager.forLocale('de-DE');
+
+      expect(german.generateBlogPostUrl(post)).toBe(`/de/blog/${post.slug}`);
+      expect(german.generateGuideUrl(mockGuides[0], true)).toBe(
+        `https://example.com/de/guides/${mockGuides[0].slug}`
+      );
+      expect(german.generateCategoryUrl(post.category)).toBe(`/category/${post.category.slug}`);
+      expect(() => urlManager.forLocale('fr-FR')).toThrow('Unknown locale: fr-FR');
+    });
+
+    test('should list hreflang alternates with an x-default', () => {
+      const alternates = urlManager
+        .forLocale('pt-BR')
+        .generateAlternateUrls((urls) => urls.generateBlogPostUrl(post, true));
+
+      expect(alternates).toEqual([
+        { hreflang: 'en-US', url: `https://example.com/blog/${post.slug}` },
+        { hreflang: 'de-DE', url: `https://example.com/de/blog/${post.slug}` },
+        { hreflang: 'pt-BR', url: `https://example.com/pt-br/blog/${post.slug}` },
+        { hreflang: 'pt-PT', url: `https://example.com/pt-pt/blog/${post.slug}` },
+        { hreflang: 'x-default', url: `https://example.com/blog/${post.slug}` },
+      ]);
+      expect(
+        new UrlPatternManager('https://example.com').generateAlternateUrls((urls) =>
+          urls.generateBlogPostUrl(post, true)
+        )
+      ).toEqual([]);
+    });
+
+    test('Property: localized URLs are distinct and keep the default URL unprefixed', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(...mockBlogPosts, ...mockGuides), (content) => {
+          const generate = (urls: UrlPatternManager) =>
+            'excerpt' in content
+              ? urls.generateBlogPostUrl(content)
+              : urls.generateGuideUrl(content);
+          const urls = urlManager.generateLocalizedUrls(generate);
+
+          return new Set(urls).size === locales.locales.length && urls[0] === generate(urlManager);
+        }),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('Localized Content', () => {
+    test('should request entries in the service locale', async () => {
+      const getEntries = vi.fn(async (_query: Record<string, unknown>) => ({
+        items: [],
+        total: 0,
+        skip: 0,
+        limit: 1,
+      }));
+      const client = { getEntries } as unknown as ContentfulClientApi<undefined>;
+      const service = new ContentfulService(client, client);
+
+      await service.getBlogPost('post');
+      await service.withLocale('de-DE').getBlogPost('post');
+
+      expect(getEntries.mock.calls[0][0]).not.toHaveProperty('locale');
+      expect(getEntries.mock.calls[1][0]).toMatchObject({ locale: 'de-DE', 'fields.slug': 'post' });
+    });
+
+    test('should state the page language in structured data', () => {
+      const [blogPosting] = createContentTypeStructuredDataGenerator(
+        'de-DE'
+      ).generateBlogPostStructuredData(post, 'https://example.com/de/blog/post', false);
+
+      expect(blogPosting).toMatchObject({ '@type': 'BlogPosting', inLanguage: 'de-DE' });
+      expect(createSchemaGenerator().generateHowToSchema(mockGuides[0]).inLanguage).toBe('en-US');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import { createContentTypeSeoGenerator } from '../lib/contentTypeSeo.js';
+import { createContentTypeStructuredDataGenerator } from '../lib/contentTypeStructuredData.js';
+import { ARCHIVE_PAGE_SIZE, getTotalPages, paginateItems } from '../lib/pagination.js';
+import { UrlPatternManager } from '../lib/urlPatterns.js';
+import { propertyTestConfig } from './setup';
+
+describe('Archive Pagination', () => {
+  test('should split items into fixed-size pages', () => {
+    const items = Array.from({ length: 25 }, (_, index) => index);
+    const pages = paginateItems(items, 10);
+
+    expect(pages.map((page) => page.items.length)).toEqual([10, 10, 5]);
+    expect(pages[2]).toMatchObject({
+      currentPage: 3,
+      totalPages: 3,
+      totalItems: 25,
+      startIndex: 20,
+    });
+  });
+
+  test('should always produce a first page', () => {
+    expect(paginateItems([])).toEqual([
+      {
+        items: [],
+        currentPage: 1,
+        totalPages: 1,
+        totalItems: 0,
+        pageSize: ARCHIVE_PAGE_SIZE,
+        startIndex: 0,
+      },
+    ]);
+    expect(() => getTotalPages(10, 0)).toThrow('Invalid page size');
+  });
+
+  test('Property: pages cover every item exactly once and in order', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), fc.integer({ min: 1, max: 20 }), (items, pageSize) => {
+        const pages = paginateItems(items, pageSize);
+
+        return (
+          pages.length === getTotalPages(items.length, pageSize) &&
+          pages.every((page) => page.items.length <= pageSize) &&
+          JSON.stringify(pages.flatMap((page) => page.items)) === JSON.stringify(items)
+        );
+      }),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  describe('Archive URLs', () => {
+    const urlManager = new UrlPatternManager('https://example.com/');
+
+    test('should use the archive root for the first page', () => {
+      expect(urlManager.generateArchiveUrl('blog')).toBe('/blog');
+      expect(urlManager.generateArchiveUrl('guides', 3)).toBe('/guides/page/3');
+      expect(urlManager.generateArchiveUrl('blog', 2, true)).toBe(
+        'https://example.com/blog/page/2'
+      );
+      expect(urlManager.generateCategoriesUrl(true)).toBe('https://example.com/categories');
+    });
+
+    test('should reject invalid page numbers', () => {
+      expect(() => urlManager.generateArchiveUrl('blog', 0)).toThrow('Invalid archive page');
+      expect(() => urlManager.generateArchiveUrl('blog', 1.5)).toThrow('Invalid archive page');
+    });
+  });
+
+  describe('Archive SEO', () => {
+    test('should emit self-canonical URLs with prev/next links', () => {
+      const seo = createContentTypeSeoGenerator().generateArchiveSeo(
+        'Blog',
+        'All articles.',
+        '/blog/page/2',
+        { currentPage: 2, totalPages: 3, prevPath: '/blog', nextPath: '/blog/page/3' }
+      );
+
+      expect(seo.canonical).toMatch(/\/blog\/page\/2$/);
+      expect(seo.prev).toMatch(/\/blog$/);
+      expect(seo.next).toMatch(/\/blog\/page\/3$/);
+      expect(seo.title).toContain('Page 2 of 3');
+      expect(seo.noindex).toBe(false);
+    });
+
+    test('should number ItemList positions across pages', () => {
+      const [collectionPage] =
+        createContentTypeStructuredDataGenerator().generateCollectionStructuredData({
+          name: 'Blog',
+          description: 'All articles.',
+          canonicalUrl: 'https://example.com/blog/page/2',
+          items: [{ name: 'Post', url: '/blog/post' }],
+          breadcrumbs: [{ name: 'Home', url: '/' }],
+          startIndex: 12,
+        });
+
+      expect(collectionPage['@type']).toBe('CollectionPage');
+      expect(collectionPage.mainEntity).toMatchObject({
+        '@type': 'ItemList',
+        numberOfItems: 1,
+        itemListElement: [{ '@type': 'ListItem', position: 13, name: 'Post' }],
+      });
+    });
+  });
+});
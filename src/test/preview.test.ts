@@ -0,0 +1,362 @@
+import type { APIContext, AstroCookies } from 'astro';
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import { mockBlogPosts, mockCategories, mockGuides } from '../lib/mocks.js';
+import {
+  PREVIEW_CONTENT_TYPES,
+  applyPreviewSeo,
+  comparePreviewEntries,
+  createPreviewTokenSigner,
+  getPreviewSecrets,
+  isPreviewContentType,
+  isPreviewSession,
+  previewRequiresSlug,
+  safeCompare,
+} from '../lib/preview.js';
+import { createUrlPatternManager } from '../lib/urlPatterns.js';
+import { GET, POST } from '../pages/api/preview.js';
+import { propertyTestConfig } from './setup';
+
+const cookieJar = (values: Record<string, string> = {}) =>
+  Object.assign(
+    {
+      get: (name: string) => (name in values ? { value: values[name] } : undefined),
+      set: (name: string, value: string) => {
+        values[name] = value;
+      },
+    } as unknown as AstroCookies,
+    { values }
+  );
+
+describe('Draft Preview', () => {
+  const urlManager = createUrlPatternManager();
+
+  test('should recognise every previewable content type', () => {
+    expect(PREVIEW_CONTENT_TYPES.every(isPreviewContentType)).toBe(true);
+    expect(isPreviewContentType('author')).toBe(false);
+    expect(PREVIEW_CONTENT_TYPES.filter((type) => !previewRequiresSlug(type))).toEqual(['faq']);
+  });
+
+  describe('Preview Toolbar', () => {
+    const [post] = mockBlogPosts;
+
+    test('should report an unchanged entry as published', () => {
+      const comparison = comparePreviewEntries(
+        { type: 'blog', content: post },
+        { type: 'blog', content: post }
+      );
+
+      expect(comparison.state).toBe('published');
+      expect(comparison.fields.every((diff) => !diff.changed)).toBe(true);
+      expect(comparison.fields.map((diff) => diff.field)).toContain('title');
+    });
+
+    test('should highlight changed title, SEO and image fields', () => {
+      const draft = {
+        ...post,
+        title: 'Draft title',
+        seo: { ...post.seo, description: 'Draft SEO description' },
+        featuredImage: undefined,
+      };
+      const comparison = comparePreviewEntries(
+        { type: 'blog', content: draft },
+        { type: 'blog', content: post }
+      );
+
+      expect(comparison.state).toBe('changed');
+      expect(comparison.fields.filter((diff) => diff.changed).map((diff) => diff.field)).toEqual([
+        'title',
+        'seoDescription',
+        'featuredImage',
+      ]);
+      expect(comparison.fields.find((diff) => diff.field === 'title')).toMatchObject({
+        draft: 'Draft title',
+        published: post.title,
+      });
+    });
+
+    test('should flag newer revisions and never-published entries', () => {
+      const [guide] = mockGuides;
+      const revised = { ...guide, sys: { ...guide.sys, updatedAt: '2030-01-01T00:00:00Z' } };
+
+      expect(
+        comparePreviewEntries(
+          { type: 'guide', content: revised },
+          { type: 'guide', content: guide }
+        ).state
+      ).toBe('changed');
+
+      const [category] = mockCategories;
+      const unpublished = comparePreviewEntries({ type: 'category', content: category }, null);
+      expect(unpublished.state).toBe('draft');
+      expect(unpublished.fields.some((diff) => diff.changed)).toBe(false);
+      expect(unpublished.fields.find((diff) => diff.field === 'title')?.draft).toBe(category.name);
+    });
+  });
+
+  describe('Preview Tokens', () => {
+    const issuer = 'https://example.com';
+    const signer = createPreviewTokenSigner({ secrets: ['current-secret'], issuer });
+    const guide = { contentType: 'guide' as const, slug: 'astro-seo-guide' };
+    const now = Date.UTC(2024, 0, 1);
+
+    test('should verify a token for the entry it was issued for', () => {
+      const result = signer.verify(signer.sign(guide, now), guide, now);
+
+      expect(result).toMatchObject({
+        valid: true,
+        payload: { type: 'guide', slug: 'astro-seo-guide', iss: issuer },
+      });
+      expect(
+        signer.verify(signer.sign({ contentType: 'faq' }, now), { contentType: 'faq' }, now)
+      ).toMatchObject({ valid: true });
+    });
+
+    test('should reject tampered, foreign and expired tokens', () => {
+      const token = signer.sign(guide, now);
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), slug: 'x' })
+      ).toString('base64url');
+      const otherIssuer = createPreviewTokenSigner({
+        secrets: ['current-secret'],
+        issuer: 'https://staging.example.com',
+      });
+
+      expect(signer.verify(`${forged}.${signature}`, undefined, now)).toEqual({
+        valid: false,
+        error: 'signature',
+      });
+      expect(signer.verify('true', undefined, now)).toEqual({ valid: false, error: 'malformed' });
+      expect(otherIssuer.verify(token, undefined, now)).toEqual({ valid: false, error: 'issuer' });
+      expect(signer.verify(token, { contentType: 'guide', slug: 'other' }, now)).toEqual({
+        valid: false,
+        error: 'target',
+      });
+      expect(signer.verify(token, guide, now + 60 * 60 * 1000)).toEqual({
+        valid: false,
+        error: 'expired',
+      });
+    });
+
+    test('should accept rotated-out secrets until they are removed', () => {
+      const oldToken = createPreviewTokenSigner({ secrets: ['old-secret'], issuer }).sign(
+        guide,
+        now
+      );
+      const rotated = createPreviewTokenSigner({ secrets: ['new-secret', 'old-secret'], issuer });
+      const retired = createPreviewTokenSigner({ secrets: ['new-secret'], issuer });
+
+      expect(rotated.verify(oldToken, guide, now).valid).toBe(true);
+      expect(rotated.matchesSecret('old-secret')).toBe(true);
+      expect(retired.verify(oldToken, guide, now).valid).toBe(false);
+      expect(retired.matchesSecret('old-secret')).toBe(false);
+    });
+
+    test('should read comma-separated secrets and only fall back for local mock content', () => {
+      expect(getPreviewSecrets({ CONTENTFUL_PREVIEW_SECRET: ' new , old,' })).toEqual([
+        'new',
+        'old',
+      ]);
+      expect(getPreviewSecrets({ NODE_ENV: 'development' })).toEqual(['mock-preview-secret']);
+      expect(getPreviewSecrets({ NODE_ENV: 'production' })).toEqual([]);
+      expect(
+        getPreviewSecrets({
+          CONTENTFUL_SPACE_ID: 'space',
+          CONTENTFUL_DELIVERY_TOKEN: 'delivery',
+          CONTENTFUL_PREVIEW_TOKEN: 'preview',
+        })
+      ).toEqual([]);
+      expect(createPreviewTokenSigner({ secrets: [] }).isConfigured).toBe(false);
+    });
+
+    test('should only accept a signed cookie as a session', () => {
+      const token = signer.sign(guide);
+
+      expect(isPreviewSession(cookieJar({ preview: token }), guide, signer)).toBe(true);
+      expect(isPreviewSession(cookieJar({ preview: 'true' }), guide, signer)).toBe(false);
+      expect(isPreviewSession(cookieJar(), guide, signer)).toBe(false);
+    });
+
+    test('Property: secrets compare equal only when identical', () => {
+      fc.assert(
+        fc.property(fc.string(), fc.string(), (a, b) => safeCompare(a, b) === (a === b)),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+
+    test('Property: changing any token character invalidates it', () => {
+      const token = signer.sign(guide, now);
+      const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_.';
+
+      fc.assert(
+        fc.property(
+          fc.nat({ max: token.length - 1 }),
+          fc.constantFrom(...alphabet),
+          (position, character) => {
+            fc.pre(token[position] !== character);
+            const tampered = `${token.slice(0, position)}${character}${token.slice(position + 1)}`;
+            return !signer.verify(tampered, guide, now).valid;
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  test('should generate preview URLs for guides, categories and the FAQ page', () => {
+    expect(urlManager.generatePreviewUrl('guide', 'astro-seo-guide')).toBe(
+      '/preview/guide/astro-seo-guide'
+    );
+    expect(urlManager.generatePreviewUrl('category', 'Web Performance')).toBe(
+      '/preview/category/web-performance'
+    );
+    expect(urlManager.generatePreviewUrl('faq')).toBe('/preview/faq');
+    expect(() => urlManager.generatePreviewUrl('category')).toThrow('requires a slug');
+  });
+
+  test('Property: preview SEO is never indexable', () => {
+    fc.assert(
+      fc.property(
+        fc.record(
+          {
+            title: fc.string(),
+            canonical: fc.webUrl(),
+            noindex: fc.boolean(),
+            nofollow: fc.boolean(),
+          },
+          { requiredKeys: ['title'] }
+        ),
+        (seo) => {
+          const previewSeo = applyPreviewSeo(seo, 'https://example.com/preview/faq');
+
+          return (
+            previewSeo.noindex &&
+            previewSeo.nofollow &&
+            previewSeo.title === `[PREVIEW] ${seo.title}` &&
+            previewSeo.canonical === 'https://example.com/preview/faq'
+          );
+        }
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  describe('Preview API', () => {
+    const activate = (body: Record<string, string>) => {
+      const cookies = cookieJar();
+      const response = POST({
+        request: new Request('http://localhost/api/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+          body: JSON.stringify({ secret: 'mock-preview-secret', ...body }),
+        }),
+        cookies,
+        redirect: () => new Response(null, { status: 302 }),
+      } as unknown as APIContext);
+      return { cookies, response };
+    };
+
+    test('should activate category and FAQ previews', async () => {
+      const category = activate({ contentType: 'category', slug: 'web-performance' });
+      expect(await (await category.response).json()).toMatchObject({
+        previewUrl: '/preview/category/web-performance',
+      });
+      expect(
+        isPreviewSession(category.cookies, { contentType: 'category', slug: 'web-performance' })
+      ).toBe(true);
+      expect(isPreviewSession(category.cookies, { contentType: 'faq' })).toBe(false);
+
+      const faq = await activate({ contentType: 'faq' }).response;
+      expect(await faq.json()).toMatchObject({ previewUrl: '/preview/faq' });
+    });
+
+    test('should reject a wrong secret', async () => {
+      const { cookies, response } = activate({ contentType: 'faq', secret: 'mock-preview-secreT' });
+
+      expect((await response).status).toBe(401);
+      expect(cookies.values).toEqual({});
+    });
+
+    test('should still require a slug for single-entry previews', async () => {
+      expect((await activate({ contentType: 'guide' }).response).status).toBe(400);
+      expect((await activate({ contentType: 'author', slug: 'jane' }).response).status).toBe(400);
+    });
+
+    test('should answer malformed bodies and slugs with 400', async () => {
+      const post = (body: string) =>
+        POST({
+          request: new Request('http://localhost/api/preview', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+          }),
+          cookies: cookieJar(),
+          redirect: () => new Response(null, { status: 302 }),
+        } as unknown as APIContext);
+
+      for (const body of [
+        'null',
+        '[]',
+        '{"secret":42}',
+        '{"secret":"mock-preview-secret","slug":[]}',
+        '{',
+      ]) {
+        expect((await post(body)).status).toBe(400);
+      }
+      expect((await activate({ contentType: 'blog', slug: '!!' }).response).status).toBe(400);
+    });
+
+    describe('GET activation', () => {
+      const open = (query: string, cookies = cookieJar()) => {
+        const url = new URL(`http://localhost/api/preview?${query}`);
+        const response = GET({
+          url,
+          request: new Request(url),
+          cookies,
+          redirect: (location: string, status: number) =>
+            new Response(null, { status, headers: { Location: location } }),
+        } as unknown as APIContext);
+        return { cookies, response };
+      };
+
+      test("should activate from Contentful's preview URL and redirect", async () => {
+        const { cookies, response } = open(
+          'secret=mock-preview-secret&slug=advanced-core-web-vitals-optimization-astro&type=blog'
+        );
+
+        expect((await response).status).toBe(302);
+        expect((await response).headers.get('Location')).toBe(
+          '/preview/blog/advanced-core-web-vitals-optimization-astro'
+        );
+        expect(
+          isPreviewSession(cookies, {
+            contentType: 'blog',
+            slug: 'advanced-core-web-vitals-optimization-astro',
+          })
+        ).toBe(true);
+      });
+
+      test('should validate query parameters before setting a session', async () => {
+        for (const query of [
+          'secret=wrong&slug=some-post&type=blog',
+          'secret=mock-preview-secret&type=guide',
+          'secret=mock-preview-secret&slug=some-post&type=video',
+        ]) {
+          const { cookies, response } = open(query);
+          expect((await response).status).toBeGreaterThanOrEqual(400);
+          expect(cookies.values).toEqual({});
+        }
+      });
+
+      test('should report status without a secret', async () => {
+        const { cookies, response } = open('secret=mock-preview-secret&type=faq');
+        await response;
+        const status = await (await open('', cookies).response).json();
+
+        expect(status).toMatchObject({ active: true, metadata: { contentType: 'faq' } });
+        expect(await (await open('').response).json()).toMatchObject({ active: false });
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import { mockBlogPosts, mockGuides } from '../lib/mocks.js';
+import {
+  RELATED_CONTENT_WEIGHTS,
+  getRelatedContent,
+  scoreRelatedContent,
+} from '../lib/relatedContent.js';
+import { propertyTestConfig } from './setup';
+
+const findPost = (slug: string) => {
+  const post = mockBlogPosts.find((candidate) => candidate.slug === slug);
+  if (!post) throw new Error(`Missing mock post: ${slug}`);
+  return post;
+};
+
+describe('Related Content', () => {
+  const candidates = { blogPosts: mockBlogPosts, guides: mockGuides };
+
+  test('should rank category, shared topics and recency into a mixed list', () => {
+    const post = findPost('advanced-core-web-vitals-optimization-astro');
+    const related = getRelatedContent({ type: 'blog', content: post }, candidates);
+
+    expect(related.map((item) => `${item.type}:${item.content.slug}`)).toEqual([
+      // Same performance category
+      'guide:core-web-vitals-optimization-masterclass',
+      // Shares the astro tag and is the newest candidate
+      'blog:building-seo-first-applications-astro-contentful',
+      // Astro appears in the guide's tools
+      'guide:complete-guide-astro-seo-optimization',
+      // Recency only
+      'blog:technical-seo-best-practices-modern-web-apps',
+    ]);
+  });
+
+  test('should never include the source content', () => {
+    for (const guide of mockGuides) {
+      const related = getRelatedContent({ type: 'guide', content: guide }, candidates);
+      expect(related.some((item) => item.type === 'guide' && item.content === guide)).toBe(false);
+    }
+  });
+
+  test('should respect the limit', () => {
+    const post = findPost('technical-seo-best-practices-modern-web-apps');
+    expect(getRelatedContent({ type: 'blog', content: post }, candidates, 2)).toHaveLength(2);
+  });
+
+  test('should cap the recency boost at its weight', () => {
+    const post = findPost('technical-seo-best-practices-modern-web-apps');
+    const newest = new Date(post.publishedAt).getTime();
+    const unrelated = { ...post, slug: 'other', tags: [], category: mockBlogPosts[0].category };
+
+    expect(
+      scoreRelatedContent(
+        { type: 'blog', content: post },
+        { type: 'blog', content: unrelated },
+        newest
+      )
+    ).toBe(RELATED_CONTENT_WEIGHTS.recency);
+  });
+
+  test('Property: ranking is independent of candidate order and sorted by score', () => {
+    fc.assert(
+      fc.property(
+        fc.shuffledSubarray(mockBlogPosts, { minLength: 1 }),
+        fc.shuffledSubarray(mockGuides),
+        fc.integer({ min: 1, max: 6 }),
+        (blogPosts, guides, limit) => {
+          const source = { type: 'blog' as const, content: blogPosts[0] };
+          const related = getRelatedContent(source, { blogPosts, guides }, limit);
+          const reversed = getRelatedContent(
+            source,
+            { blogPosts: [...blogPosts].reverse(), guides: [...guides].reverse() },
+            limit
+          );
+
+          return (
+            related.length <= limit &&
+            related.every((item, index) => index === 0 || related[index - 1].score >= item.score) &&
+            JSON.stringify(related) === JSON.stringify(reversed)
+          );
+        }
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+});
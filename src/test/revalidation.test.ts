@@ -0,0 +1,232 @@
+import type { APIContext } from 'astro';
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import { MockContentfulService, mockBlogPosts, mockGuides } from '../lib/mocks.js';
+import {
+  HttpRevalidationHook,
+  type RevalidationPlan,
+  createRevalidationHook,
+  createRevalidationPlanner,
+  getWebhookSecrets,
+  parseContentfulWebhook,
+  signContentfulWebhook,
+  verifyContentfulWebhook,
+} from '../lib/revalidation.js';
+import { POST } from '../pages/api/revalidate.js';
+import { propertyTestConfig } from './setup';
+
+const [post] = mockBlogPosts;
+
+const publishPayload = (contentTypeId: string, slug?: string) =>
+  JSON.stringify({
+    sys: { id: 'entry-1', type: 'Entry', contentType: { sys: { id: contentTypeId } } },
+    fields: slug ? { slug: { 'en-US': slug } } : {},
+  });
+
+const signedRequest = (body: string, secret: string, now = Date.now()) => {
+  const headers = signContentfulWebhook(
+    {
+      method: 'POST',
+      path: '/api/revalidate',
+      headers: { 'Content-Type': 'application/vnd.contentful.management.v1+json' },
+      body,
+    },
+    secret,
+    now
+  );
+  return { method: 'POST', path: '/api/revalidate', headers: new Headers(headers), body };
+};
+
+describe('On-demand Revalidation', () => {
+  describe('Webhook Signatures', () => {
+    const now = Date.UTC(2024, 0, 1);
+    const body = publishPayload('blogPost', post.slug);
+
+    test('should accept requests signed with any configured secret', () => {
+      expect(verifyContentfulWebhook(signedRequest(body, 'secret'), ['secret'])).toEqual({
+        valid: true,
+      });
+      expect(verifyContentfulWebhook(signedRequest(body, 'old'), ['new', 'old']).valid).toBe(true);
+      expect(verifyContentfulWebhook(signedRequest(body, 'old'), ['new'])).toEqual({
+        valid: false,
+        error: 'signature',
+      });
+    });
+
+    test('should reject unsigned, stale and tampered requests', () => {
+      const request = signedRequest(body, 'secret', now);
+
+      expect(
+        verifyContentfulWebhook({ ...request, headers: new Headers() }, ['secret'], now)
+      ).toEqual({ valid: false, error: 'missing-signature' });
+      expect(verifyContentfulWebhook(request, ['secret'], now + 31 * 1000)).toEqual({
+        valid: false,
+        error: 'expired',
+      });
+      expect(
+        verifyContentfulWebhook({ ...request, path: '/api/other' }, ['secret'], now).valid
+      ).toBe(false);
+    });
+
+    test('Property: any change to the body invalidates the signature', () => {
+      const request = signedRequest(body, 'secret', now);
+
+      fc.assert(
+        fc.property(fc.string({ minLength: 1 }), (suffix) => {
+          return !verifyContentfulWebhook({ ...request, body: body + suffix }, ['secret'], now)
+            .valid;
+        }),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+
+    test('should only fall back to a development secret outside production', () => {
+      expect(getWebhookSecrets({ CONTENTFUL_WEBHOOK_SECRET: 'a,b' })).toEqual(['a', 'b']);
+      expect(getWebhookSecrets({ NODE_ENV: 'production' })).toEqual([]);
+    });
+  });
+
+  describe('Affected Pages', () => {
+    const planner = createRevalidationPlanner(new MockContentfulService());
+
+    test('should parse localized entry payloads and ignore unknown content types', () => {
+      expect(
+        parseContentfulWebhook(JSON.parse(publishPayload('guide', 'astro-guide')), 'topic')
+      ).toEqual({ contentType: 'guide', entryId: 'entry-1', topic: 'topic', slug: 'astro-guide' });
+      expect(parseContentfulWebhook(JSON.parse(publishPayload('landingPage', 'home')))).toBeNull();
+      expect(parseContentfulWebhook(JSON.parse(publishPayload('toString')))).toBeNull();
+      expect(parseContentfulWebhook({ sys: { id: 'asset-1', type: 'Asset' } })).toBeNull();
+    });
+
+    test('should map a blog post to its detail, listing, taxonomy and sitemap pages', async () => {
+      const { paths } = await planner.plan({
+        contentType: 'blog',
+        entryId: post.sys.id,
+        slug: post.slug,
+      });
+
+      expect(paths).toEqual(
+        expect.arrayContaining([
+          `/blog/${post.slug}`,
+          '/blog',
+          `/category/${post.category.slug}`,
+          `/author/${post.author.slug}`,
+          '/sitemap-blog.xml',
+          '/sitemap-index.xml',
+          '/search-index.json',
+        ])
+      );
+      expect(paths.filter((path) => path.startsWith('/tag/')).length).toBeGreaterThan(0);
+      expect(paths).toEqual([...new Set(paths)].sort());
+    });
+
+    test('should purge the built URL of an unpublished entry', async () => {
+      const change = parseContentfulWebhook(
+        {
+          sys: {
+            id: 'entry-1',
+            type: 'DeletedEntry',
+            contentType: { sys: { id: 'blogPost' } },
+          },
+        },
+        'ContentManagement.Entry.unpublish'
+      );
+      const lookup = async (entryId: string) =>
+        entryId === 'entry-1' ? 'removed-post' : undefined;
+
+      expect(change).toMatchObject({ contentType: 'blog', entryId: 'entry-1', slug: undefined });
+      if (!change) return;
+      const { paths } = await createRevalidationPlanner(new MockContentfulService(), lookup).plan(
+        change
+      );
+
+      expect(paths).toContain('/blog/removed-post');
+      expect(paths).toContain('/blog');
+      expect(paths).toContain('/sitemap-blog.xml');
+    });
+
+    test('should purge the old and new URL of a renamed entry', async () => {
+      const { paths } = await createRevalidationPlanner(
+        new MockContentfulService(),
+        async () => 'old-slug'
+      ).plan({ contentType: 'guide', entryId: 'entry-1', slug: 'new-slug' });
+
+      expect(paths).toContain('/guides/old-slug');
+      expect(paths).toContain('/guides/new-slug');
+    });
+
+    test('should purge every detail page when the removed slug is unknown', async () => {
+      const { paths } = await planner.plan({ contentType: 'guide', entryId: 'gone' });
+
+      expect(paths).toContain('/guides');
+      expect(paths).toContain('/sitemap-guides.xml');
+      for (const guide of mockGuides) {
+        expect(paths).toContain(`/guides/${guide.slug}`);
+      }
+    });
+  });
+
+  describe('Revalidation Hooks', () => {
+    const plan: RevalidationPlan = {
+      change: { contentType: 'faq', entryId: 'faq-1' },
+      paths: ['/faq'],
+    };
+
+    test('should POST the plan to the configured hook URL', async () => {
+      const requests: Array<{ url: string; init?: RequestInit }> = [];
+      const hook = new HttpRevalidationHook('https://hooks.example.com/rebuild', 'token', (async (
+        url: string,
+        init?: RequestInit
+      ) => {
+        requests.push({ url, init });
+        return new Response(null, { status: 201 });
+      }) as typeof fetch);
+
+      await hook.trigger(plan);
+
+      expect(requests[0].url).toBe('https://hooks.example.com/rebuild');
+      expect(JSON.parse(String(requests[0].init?.body))).toMatchObject({ paths: ['/faq'] });
+      expect(new Headers(requests[0].init?.headers).get('Authorization')).toBe('Bearer token');
+
+      const failing = new HttpRevalidationHook(
+        'https://hooks.example.com/rebuild',
+        undefined,
+        (async () => new Response(null, { status: 500 })) as typeof fetch
+      );
+      await expect(failing.trigger(plan)).rejects.toThrow('status 500');
+    });
+
+    test('should use the local stand-in without a hook URL', () => {
+      expect(createRevalidationHook({}).name).toBe('local');
+      expect(
+        createRevalidationHook({ REVALIDATE_HOOK_URL: 'https://hooks.example.com' }).name
+      ).toBe('http');
+    });
+  });
+
+  describe('Revalidate API', () => {
+    const send = (body: string, headers: Headers) =>
+      POST({
+        request: new Request('http://localhost/api/revalidate', { method: 'POST', headers, body }),
+        url: new URL('http://localhost/api/revalidate'),
+      } as unknown as APIContext);
+
+    test('should revalidate a signed publish webhook', async () => {
+      const body = publishPayload('blogPost', post.slug);
+      const response = await send(body, signedRequest(body, 'mock-webhook-secret').headers);
+      const result = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result).toMatchObject({ revalidated: true, hook: 'local' });
+      expect(result.paths).toContain(`/blog/${post.slug}`);
+    });
+
+    test('should reject unsigned webhooks', async () => {
+      const body = publishPayload('blogPost', post.slug);
+      const headers = signedRequest(body, 'wrong-secret').headers;
+
+      expect((await send(body, headers)).status).toBe(401);
+      expect((await send(body, new Headers())).status).toBe(401);
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { mockBlogPosts, mockFaqEntries, mockGuides } from '../lib/mocks.js';
+import {
+  mockAssets,
+  mockAuthors,
+  mockBlogPosts,
+  mockFaqEntries,
+  mockGuides,
+} from '../lib/mocks.js';
 import { SchemaGenerator, createSchemaGenerator } from '../lib/schemas.js';
 
 describe('Schema Generators', () => {
@@ -58,6 +64,27 @@ describe('Schema Generators', () => {
     }
   });
 
+  it('should add table of contents to BlogPosting schema as hasPart', () => {
+    const canonicalUrl = 'https://example.com/blog/test-post';
+    const schema = schemaGenerator.generateBlogPostingSchema(mockBlogPosts[0], canonicalUrl, [
+      { depth: 2, text: 'Introduction', id: 'introduction' },
+      { depth: 3, text: 'Selective Hydration', id: 'selective-hydration' },
+    ]);
+
+    expect(schema.hasPart?.['@type']).toBe('ItemList');
+    expect(schema.hasPart?.numberOfItems).toBe(2);
+    expect(schema.hasPart?.itemListElement[1]).toEqual({
+      '@type': 'ListItem',
+      position: 2,
+      name: 'Selective Hydration',
+      url: `${canonicalUrl}#selective-hydration`,
+    });
+
+    expect(schemaGenerator.generateBlogPostingSchema(mockBlogPosts[0], canonicalUrl).hasPart).toBe(
+      undefined
+    );
+  });
+
   it('should generate valid HowTo schema', () => {
     const guide = mockGuides[0];
     const schema = schemaGenerator.generateHowToSchema(guide);
@@ -84,6 +111,26 @@ describe('Schema Generators', () => {
     }
   });
 
+  it('should make Contentful step and featured image URLs absolute', () => {
+    const guide = mockGuides[0];
+    const image = {
+      ...mockAssets[0],
+      fields: {
+        ...mockAssets[0].fields,
+        file: { ...mockAssets[0].fields.file, url: '//images.ctfassets.net/space/step.png' },
+      },
+    };
+
+    const schema = schemaGenerator.generateHowToSchema({
+      ...guide,
+      featuredImage: image,
+      steps: [{ ...guide.steps[0], image }],
+    });
+
+    expect(schema.step[0].image?.url).toBe('https://images.ctfassets.net/space/step.png');
+    expect(schema.image?.url).toBe('https://images.ctfassets.net/space/step.png');
+  });
+
   it('should generate valid BreadcrumbList schema', () => {
     const breadcrumbs = [
       { name: 'Home', url: '/' },
@@ -123,6 +170,36 @@ describe('Schema Generators', () => {
     expect(firstFaq.acceptedAnswer.text).toBe(faqEntries[0].answer);
   });
 
+  it('should generate valid ProfilePage schema for authors', () => {
+    const author = mockAuthors[0];
+    const profileUrl = 'https://example.com/author/alex-chen';
+    const posts = mockBlogPosts.filter((post) => post.author.slug === author.slug);
+    const schema = schemaGenerator.generateProfilePageSchema(author, profileUrl, posts);
+
+    expect(schema['@context']).toBe('https://schema.org');
+    expect(schema['@type']).toBe('ProfilePage');
+    expect(schema.url).toBe(profileUrl);
+    expect(schema.mainEntity['@type']).toBe('Person');
+    expect(schema.mainEntity.name).toBe(author.name);
+    expect(schema.mainEntity.url).toBe(profileUrl);
+    expect(schema.mainEntity.description).toBe(author.bio);
+    expect(schema.mainEntity.image?.url).toBe(author.avatar?.fields.file.url);
+    expect(schema.mainEntity.sameAs).toEqual(Object.values(author.socialLinks ?? {}));
+    expect(schema.hasPart?.map((part) => part.headline)).toEqual(posts.map((post) => post.title));
+  });
+
+  it('should match BlogPosting author URL to the Person URL', () => {
+    const post = mockBlogPosts[0];
+    const blogPosting = schemaGenerator.generateBlogPostingSchema(post, 'https://example.com/blog');
+    const person = schemaGenerator.generatePersonSchema(
+      post.author,
+      blogPosting.author.url as string
+    );
+
+    expect(blogPosting.author.url).toMatch(new RegExp(`/author/${post.author.slug}$`));
+    expect(person.url).toBe(blogPosting.author.url);
+  });
+
   it('should create schema generator with proper configuration', () => {
     const generator = createSchemaGenerator();
     expect(generator).toBeInstanceOf(SchemaGenerator);
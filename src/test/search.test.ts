@@ -0,0 +1,234 @@
+import type { APIContext } from 'astro';
+import fc from 'fast-check';
+import { describe, expect, test } from 'vitest';
+import { createContentTypeStructuredDataGenerator } from '../lib/contentTypeStructuredData.js';
+import { mockBlogPosts, mockFaqEntries, mockGuides } from '../lib/mocks.js';
+import {
+  type SearchPageRequest,
+  createContentSearch,
+  highlightText,
+  parseSearchRequest,
+  tokenizeQuery,
+} from '../lib/search.js';
+import { buildSearchIndex } from '../lib/searchIndex.js';
+import { GET } from '../pages/api/search.js';
+import { propertyTestConfig } from './setup';
+
+const content = buildSearchIndex({
+  blogPosts: mockBlogPosts,
+  guides: mockGuides,
+  faqEntries: mockFaqEntries,
+});
+
+describe('Content Search', () => {
+  const contentSearch = createContentSearch();
+
+  test('should match posts and guides on title, keywords and excerpt', () => {
+    const results = contentSearch.search('lighthouse', content);
+
+    expect(results.slice(0, 2).map((result) => result.url)).toEqual([
+      '/guides/core-web-vitals-optimization-masterclass',
+      '/guides/complete-guide-astro-seo-optimization',
+    ]);
+    expect(results[0].highlights.map((highlight) => highlight.field)).toContain('keywords');
+  });
+
+  test('should require every query term and rank title matches first', () => {
+    const results = contentSearch.search('astro contentful', content);
+
+    expect(results[0].url).toBe('/blog/building-seo-first-applications-astro-contentful');
+    expect(
+      results[0].highlights.find((highlight) => highlight.field === 'title')?.snippet
+    ).toContain('<mark>Astro</mark> and <mark>Contentful</mark>');
+  });
+
+  test('should include FAQ entries and highlight stemmed matches', () => {
+    const results = contentSearch.search('cumulative layout shifts', content);
+
+    expect(results[0]).toMatchObject({
+      type: 'faq',
+      url: '/faq#faq-how-do-i-prevent-cumulative-layout-shift-cls',
+    });
+    expect(results[0].highlights[0].snippet).toContain('<mark>Cumulative</mark>');
+  });
+
+  test('should ignore queries shorter than the minimum length', () => {
+    expect(contentSearch.search('a', content)).toEqual([]);
+    expect(contentSearch.search('   ', content)).toEqual([]);
+  });
+
+  test('should escape snippets and mark matches', () => {
+    expect(highlightText('Use <script> & SEO', ['seo'])).toBe(
+      'Use &lt;script&gt; &amp; <mark>SEO</mark>'
+    );
+    expect(highlightText('Lighthouse audits', ['lighthous'])).toBe(
+      '<mark>Lighthouse</mark> audits'
+    );
+    expect(highlightText(`${'a'.repeat(100)} target ${'b'.repeat(200)}`, ['target'], 10)).toMatch(
+      /^…a+ <mark>target<\/mark> b+…$/
+    );
+  });
+
+  test('should split queries into unique lowercase terms', () => {
+    expect(tokenizeQuery('  Core  WEB core vitals ')).toEqual(['core', 'web', 'vitals']);
+  });
+
+  test('Property: snippets never contain markup other than mark tags', () => {
+    fc.assert(
+      fc.property(
+        fc.string(),
+        fc.array(fc.string({ minLength: 1 }), { minLength: 1 }),
+        (text, terms) => {
+          const snippet = highlightText(
+            text,
+            terms.map((term) => term.toLowerCase())
+          );
+          return !/<(?!\/?mark>)/.test(snippet);
+        }
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  describe('Faceted Search', () => {
+    const request = (changes: Partial<SearchPageRequest> = {}): SearchPageRequest => ({
+      query: 'seo',
+      filters: {},
+      sort: 'relevance',
+      page: 1,
+      ...changes,
+    });
+    const counts = (values: Array<{ value: string; count: number }>) =>
+      Object.fromEntries(values.map(({ value, count }) => [value, count]));
+
+    test('should count facet values across all matches', () => {
+      const search = contentSearch.facetedSearch(request(), content);
+
+      expect(search.totalResults).toBe(4);
+      expect(counts(search.facets.type)).toEqual({ blog: 2, guide: 1, faq: 1 });
+      expect(counts(search.facets.difficulty)).toEqual({ intermediate: 1 });
+      expect(search.facets.tag.find((facet) => facet.value === 'astro')?.count).toBe(2);
+    });
+
+    test('should filter results but keep sibling facet values selectable', () => {
+      const search = contentSearch.facetedSearch(request({ filters: { type: 'blog' } }), content);
+
+      expect(search.totalResults).toBe(2);
+      expect(search.results.every((result) => result.type === 'blog')).toBe(true);
+      expect(counts(search.facets.type)).toEqual({ blog: 2, guide: 1, faq: 1 });
+      expect(search.facets.type.find((facet) => facet.selected)?.value).toBe('blog');
+      expect(search.facets.difficulty).toEqual([]);
+    });
+
+    test('should sort by date and paginate', () => {
+      const byDate = contentSearch.facetedSearch(request({ sort: 'date' }), content);
+      const dates = byDate.results.map(
+        (result) =>
+          [...mockBlogPosts, ...mockGuides].find((item) => result.url.endsWith(item.slug))
+            ?.publishedAt ?? ''
+      );
+      expect(dates.filter(Boolean)).toEqual([...dates.filter(Boolean)].sort().reverse());
+
+      const secondPage = contentSearch.facetedSearch(request({ page: 2 }), content, 3);
+      expect(secondPage.totalPages).toBe(2);
+      expect(secondPage.results).toHaveLength(1);
+      expect(secondPage.results[0].url).toBe(
+        contentSearch.facetedSearch(request(), content).results[3].url
+      );
+    });
+
+    test('should parse URL parameters and drop unknown values', () => {
+      const params = new URLSearchParams(
+        'q=%20seo%20&type=video&difficulty=Beginner&tag=Astro&sort=oldest&page=-2'
+      );
+
+      expect(parseSearchRequest(params)).toEqual({
+        query: 'seo',
+        filters: { difficulty: 'beginner', tag: 'astro' },
+        sort: 'relevance',
+        page: 1,
+      });
+    });
+
+    test('should generate stable page URLs without defaults', () => {
+      const current = request({ query: 'core web', filters: { tag: 'astro', type: 'guide' } });
+
+      expect(contentSearch.generatePageUrl(current, { sort: 'date', page: 2 })).toBe(
+        '/search?q=core%20web&type=guide&tag=astro&sort=date&page=2'
+      );
+      expect(contentSearch.generatePageUrl(current, { filters: {} })).toBe('/search?q=core%20web');
+      expect(
+        parseSearchRequest(
+          new URL(`http://localhost${contentSearch.generatePageUrl(current)}`).searchParams
+        )
+      ).toEqual(current);
+    });
+
+    test('should report the filtered count in the SearchResultsPage schema', () => {
+      const search = contentSearch.facetedSearch(request({ filters: { type: 'guide' } }), content);
+      const pageUrl = contentSearch.generatePageUrl(search, {}, true);
+      const [schema] = createContentTypeStructuredDataGenerator().generateSearchStructuredData(
+        search.query,
+        search.totalResults,
+        pageUrl
+      );
+
+      expect(schema).toMatchObject({
+        '@type': 'SearchResultsPage',
+        url: pageUrl,
+        mainEntity: { query: 'seo', resultCount: 1 },
+      });
+    });
+
+    test('Property: selected facet values count exactly the filtered results', () => {
+      const facets = contentSearch.facetedSearch(request(), content).facets;
+
+      fc.assert(
+        fc.property(
+          fc.record(
+            {
+              type: fc.constantFrom(...facets.type.map((facet) => facet.value)),
+              category: fc.constantFrom(...facets.category.map((facet) => facet.value)),
+              tag: fc.constantFrom(...facets.tag.map((facet) => facet.value)),
+            },
+            { requiredKeys: [] }
+          ),
+          (filters) => {
+            const search = contentSearch.facetedSearch(request({ filters }), content);
+
+            return Object.entries(filters).every(
+              ([name, value]) =>
+                search.facets[name as keyof typeof filters].find((facet) => facet.value === value)
+                  ?.count === search.totalResults
+            );
+          }
+        ),
+        { numRuns: propertyTestConfig.numRuns }
+      );
+    });
+  });
+
+  describe('Search API', () => {
+    const request = (query: string) =>
+      GET({ url: new URL(`http://localhost/api/search?${query}`) } as APIContext);
+
+    test('should return JSON results for a query', async () => {
+      const response = await request('q=seo&limit=2');
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(body.results).toHaveLength(2);
+      expect(body.results[0]).toMatchObject({
+        type: expect.stringMatching(/^(blog|guide)$/),
+        url: expect.stringMatching(/^\/(blog|guides)\//),
+      });
+    });
+
+    test('should reject short queries and invalid limits', async () => {
+      expect((await request('q=a')).status).toBe(400);
+      expect((await request('q=seo&limit=0')).status).toBe(400);
+      expect((await request('q=seo&limit=500')).status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import fc from 'fast-check';
+import { describe, expect, test, vi } from 'vitest';
+import { slugifyHeading } from '../lib/contentRenderer.js';
+import { createContentService, mockBlogPosts, mockFaqEntries, mockGuides } from '../lib/mocks.js';
+import {
+  INDEX_FIELD_WEIGHTS,
+  SEARCH_INDEX_VERSION,
+  buildSearchIndex,
+  editDistance,
+  isSearchIndex,
+  loadSearchIndex,
+  querySearchIndex,
+  stemToken,
+  tokenize,
+} from '../lib/searchIndex.js';
+import { UrlPatternManager, createUrlPatternManager } from '../lib/urlPatterns.js';
+import { propertyTestConfig } from './setup';
+
+const source = { blogPosts: mockBlogPosts, guides: mockGuides, faqEntries: mockFaqEntries };
+
+describe('Search Index', () => {
+  const index = buildSearchIndex(source, undefined, '2024-01-01T00:00:00.000Z');
+  const ids = (query: string) => querySearchIndex(index, query).map((match) => match.document.id);
+
+  test('should tokenize into lowercase words without stop words or diacritics', () => {
+    expect(tokenize('The Café & SEO-first APIs of 2024')).toEqual([
+      'cafe',
+      'seo',
+      'first',
+      'apis',
+      '2024',
+    ]);
+  });
+
+  test('should stem inflections to a shared stem', () => {
+    const stems = ['optimize', 'optimized', 'optimizing', 'optimization', 'optimizations'].map(
+      stemToken
+    );
+    expect(new Set(stems)).toEqual(new Set(['optimiz']));
+    expect(stemToken('queries')).toBe(stemToken('query'));
+    expect(stemToken('running')).toBe('run');
+    expect(stemToken('speed')).toBe('speed');
+    expect(stemToken('string')).toBe('string');
+  });
+
+  test('should compute edit distance with transpositions and a cutoff', () => {
+    expect(editDistance('lighthouse', 'lighthouse')).toBe(0);
+    expect(editDistance('ligthouse', 'lighthouse')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('astro', 'contentful', 2)).toBe(3);
+  });
+
+  test('should index every post, guide and FAQ entry', () => {
+    expect(index.version).toBe(SEARCH_INDEX_VERSION);
+    expect(index.documents).toHaveLength(
+      mockBlogPosts.length + mockGuides.length + mockFaqEntries.length
+    );
+    expect(index.documents.filter((document) => document.type === 'faq')).toHaveLength(
+      mockFaqEntries.length
+    );
+    expect(isSearchIndex(JSON.parse(JSON.stringify(index)))).toBe(true);
+    expect(isSearchIndex({ version: 0, documents: [], terms: {} })).toBe(false);
+  });
+
+  test('should deep link FAQ results to unique question anchors', () => {
+    const faqUrls = index.documents
+      .filter((document) => document.type === 'faq')
+      .map((document) => document.url);
+
+    expect(faqUrls[0]).toBe('/faq#faq-what-are-core-web-vitals-and-why-are-they-important');
+    expect(new Set(faqUrls).size).toBe(mockFaqEntries.length);
+    expect(createUrlPatternManager().generateFaqAnchor({ question: 'Què és el SSR?' })).toBe(
+      'faq-que-es-el-ssr'
+    );
+    // Questions slugify exactly like headings
+    expect(
+      createUrlPatternManager().generateFaqAnchor({ question: 'Largest Contentful Paint (LCP)' })
+    ).toBe(`faq-${slugifyHeading('Largest Contentful Paint (LCP)')}`);
+  });
+
+  test('should give colliding FAQ questions distinct anchors, oldest first', () => {
+    const faq = (id: string, question: string, createdAt: string) => ({
+      ...mockFaqEntries[0],
+      sys: { ...mockFaqEntries[0].sys, id, createdAt },
+      question,
+    });
+    const faqEntries = [
+      faq('faq-new', 'What is CLS', '2024-03-01T00:00:00Z'),
+      faq('faq-old', 'What is CLS?', '2024-01-01T00:00:00Z'),
+      faq('faq-jp', 'レイアウトシフトとは?', '2024-02-01T00:00:00Z'),
+      faq('faq-ko', '레이아웃 이동이란?', '2024-02-01T00:00:00Z'),
+      faq('faq-taken', 'What is CLS 2', '2024-02-01T00:00:00Z'),
+    ];
+
+    const anchors = createUrlPatternManager().generateFaqAnchors(faqEntries);
+
+    expect(Object.fromEntries(anchors)).toEqual({
+      'faq-old': 'faq-what-is-cls',
+      'faq-jp': 'faq-question',
+      'faq-ko': 'faq-question-2',
+      'faq-taken': 'faq-what-is-cls-2',
+      'faq-new': 'faq-what-is-cls-3',
+    });
+    expect(
+      buildSearchIndex({ blogPosts: [], guides: [], faqEntries })
+        .documents.map((document) => document.url)
+        .sort()
+    ).toEqual([...anchors.values()].map((anchor) => `/faq#${anchor}`).sort());
+  });
+
+  test('Property: FAQ anchors are valid fragment IDs', () => {
+    const urlManager = createUrlPatternManager();
+
+    fc.assert(
+      fc.property(fc.string(), (question) =>
+        /^faq-[a-z0-9]+(-[a-z0-9]+)*$/.test(urlManager.generateFaqAnchor({ question }))
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  test('should weight title above tags, excerpt and body', () => {
+    const weights = Object.values(INDEX_FIELD_WEIGHTS);
+    expect(weights).toEqual([...weights].sort((a, b) => b - a));
+
+    // "contentful" is in one title and several bodies
+    expect(ids('contentful')[0]).toBe('blog:building-seo-first-applications-astro-contentful');
+  });
+
+  test('should find body text that is not in title, tags or excerpt', () => {
+    expect(ids('selective hydration')).toContain(
+      'blog:advanced-core-web-vitals-optimization-astro'
+    );
+  });
+
+  test('should match prefixes and tolerate typos', () => {
+    expect(ids('lightho')).toEqual(ids('lighthouse'));
+    expect(ids('ligthouse')).toEqual(ids('lighthouse'));
+    expect(ids('contentfull')).toContain('blog:building-seo-first-applications-astro-contentful');
+
+    const [exact] = querySearchIndex(index, 'lighthouse');
+    const [typo] = querySearchIndex(index, 'ligthouse');
+    expect(typo.score).toBeLessThan(exact.score);
+  });
+
+  test('should require every query term', () => {
+    expect(ids('cumulative layout shift')[0]).toBe('faq:mock-faq-4');
+    expect(ids('astro zzzzzz')).toEqual([]);
+    expect(ids('the of and')).toEqual([]);
+  });
+
+  test('Property: every indexed title word finds its document', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...index.documents).chain((document) =>
+          fc.record({
+            document: fc.constant(document),
+            word: fc.constantFrom(...tokenize(document.title)),
+          })
+        ),
+        ({ document, word }) =>
+          querySearchIndex(index, word).some((match) => match.document.id === document.id)
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  test('Property: extra query terms only narrow sorted results', () => {
+    const words = [...new Set(index.documents.flatMap((document) => tokenize(document.title)))];
+
+    fc.assert(
+      fc.property(fc.constantFrom(...words), fc.constantFrom(...words), (first, second) => {
+        const broad = ids(first);
+        const narrow = querySearchIndex(index, `${first} ${second}`);
+
+        return (
+          narrow.every((match) => broad.includes(match.document.id)) &&
+          narrow.every(
+            (match, position) => position === 0 || narrow[position - 1].score >= match.score
+          )
+        );
+      }),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+
+  test('should load the artifact from the configured site rather than the request host', async () => {
+    const fetchIndex = vi.fn(async (_url: URL) => Response.json(index));
+    vi.stubGlobal('fetch', fetchIndex);
+
+    try {
+      const loaded = await loadSearchIndex(
+        createContentService(),
+        new UrlPatternManager('https://example.com/')
+      );
+
+      expect(loaded).toEqual(index);
+      expect(String(fetchIndex.mock.calls[0][0])).toBe('https://example.com/search-index.json');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
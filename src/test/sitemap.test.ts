@@ -1,14 +1,18 @@
 import { describe, expect, test } from 'vitest';
+import type { ContentfulAsset } from '../lib/contentful.js';
 import {
   type SitemapEntry,
   type SitemapIndex,
   formatSitemapTimestamp,
   formatSitemapUrl,
   generateSitemapEntry,
+  generateSitemapImages,
   generateSitemapIndexEntry,
   generateSitemapIndexXml,
   generateSitemapXml,
   getSitemapBaseUrl,
+  getSitemapErrorPolicy,
+  handleSitemapError,
   shouldIncludeInSitemap,
   validateSitemapUrl,
 } from '../lib/sitemap.js';
@@ -127,6 +131,101 @@ describe('Sitemap Utilities', () => {
     });
   });
 
+  describe('language alternates', () => {
+    test('should list alternates and declare the xhtml namespace only when used', () => {
+      const alternates = [
+        { hreflang: 'en-US', url: 'https://example.com/blog/post' },
+        { hreflang: 'de-DE', url: 'https://example.com/de/blog/post' },
+        { hreflang: 'x-default', url: 'https://example.com/blog/post' },
+      ];
+
+      const result = generateSitemapXml([{ url: 'https://example.com/de/blog/post', alternates }]);
+
+      expect(result).toContain(
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">'
+      );
+      expect(result).toContain(
+        '<xhtml:link rel="alternate" hreflang="de-DE" href="https://example.com/de/blog/post"/>'
+      );
+      expect(result.match(/<xhtml:link /g)).toHaveLength(3);
+      expect(generateSitemapXml([{ url: 'https://example.com/', alternates: [] }])).not.toContain(
+        'xmlns:xhtml'
+      );
+    });
+  });
+
+  describe('image extension', () => {
+    const asset = (url: string, title = '', description?: string) =>
+      ({ fields: { title, description, file: { url } } }) as ContentfulAsset;
+
+    test('should build absolute, deduplicated images from assets', () => {
+      const images = generateSitemapImages([
+        asset('//images.ctfassets.net/space/hero.jpg', 'Hero', 'Waterfall chart of a page load'),
+        undefined,
+        asset('//images.ctfassets.net/space/hero.jpg', 'Hero again'),
+        asset('https://images.example.com/step.png'),
+        asset('/relative/step.png'),
+      ]);
+
+      expect(images).toEqual([
+        {
+          loc: 'https://images.ctfassets.net/space/hero.jpg',
+          title: 'Hero',
+          caption: 'Waterfall chart of a page load',
+        },
+        { loc: 'https://images.example.com/step.png', title: undefined, caption: undefined },
+      ]);
+    });
+
+    test('should write image elements that parse in the image namespace', () => {
+      const result = generateSitemapXml([
+        {
+          url: 'https://example.com/guides/guide',
+          priority: 0.9,
+          images: [
+            { loc: 'https://images.example.com/a.png?w=1200&h=600', title: 'Step <1>' },
+            { loc: 'https://images.example.com/b.png', caption: 'Before & after' },
+          ],
+        },
+        { url: 'https://example.com/guides/other' },
+      ]);
+      const doc = new DOMParser().parseFromString(result, 'application/xml');
+      const namespace = 'http://www.google.com/schemas/sitemap-image/1.1';
+
+      expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+      expect(doc.documentElement.getAttribute('xmlns:image')).toBe(namespace);
+      expect(
+        [...doc.getElementsByTagNameNS(namespace, 'loc')].map((node) => node.textContent)
+      ).toEqual([
+        'https://images.example.com/a.png?w=1200&h=600',
+        'https://images.example.com/b.png',
+      ]);
+      expect(doc.getElementsByTagNameNS(namespace, 'title')[0].textContent).toBe('Step <1>');
+      expect(doc.getElementsByTagNameNS(namespace, 'caption')[0].textContent).toBe(
+        'Before & after'
+      );
+      // Extension elements follow the core sitemap elements
+      expect(doc.querySelector('url')?.lastElementChild?.localName).toBe('image');
+    });
+
+    test('should declare the image namespace only when an entry has images', () => {
+      expect(generateSitemapXml([{ url: 'https://example.com/', images: [] }])).not.toContain(
+        'xmlns:image'
+      );
+      expect(
+        generateSitemapXml([
+          {
+            url: 'https://example.com/de/blog/post',
+            alternates: [{ hreflang: 'de-DE', url: 'https://example.com/de/blog/post' }],
+            images: [{ loc: 'https://images.example.com/a.png' }],
+          },
+        ])
+      ).toContain(
+        'xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">'
+      );
+    });
+  });
+
   describe('generateSitemapIndexXml', () => {
     test('should generate complete XML sitemap index', () => {
       const entries: SitemapIndex[] = [
@@ -185,4 +284,26 @@ describe('Sitemap Utilities', () => {
       expect(shouldIncludeInSitemap('https://example.com/admin/dashboard')).toBe(false);
     });
   });
+
+  describe('handleSitemapError', () => {
+    const failure = new Error('Failed to fetch blog posts');
+
+    test('should fail the build by default', () => {
+      expect(getSitemapErrorPolicy({})).toBe('fail');
+      expect(() => handleSitemapError('blog', failure)).toThrow('Failed to generate blog sitemap');
+    });
+
+    test('should ship the fallback entries when the policy allows it', async () => {
+      const response = handleSitemapError(
+        'pages',
+        failure,
+        [{ url: 'https://example.com/' }],
+        getSitemapErrorPolicy({ SITEMAP_ERROR_POLICY: 'fallback' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=300');
+      expect(await response.text()).toContain('<loc>https://example.com/</loc>');
+    });
+  });
 });
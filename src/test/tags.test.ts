@@ -0,0 +1,96 @@
+import fc from 'fast-check';
+import { afterEach, describe, expect, test } from 'vitest';
+import { createContentTypeSeoGenerator } from '../lib/contentTypeSeo.js';
+import type { BlogPost } from '../lib/contentful.js';
+import { mockBlogPosts } from '../lib/mocks.js';
+import {
+  DEFAULT_TAG_INDEX_THRESHOLD,
+  getTagIndexThreshold,
+  groupPostsByTag,
+  isTagIndexable,
+  normalizeTagSlug,
+} from '../lib/tags.js';
+import { UrlPatternManager } from '../lib/urlPatterns.js';
+import { propertyTestConfig } from './setup';
+
+const withTags = (post: BlogPost, tags: string[]): BlogPost => ({ ...post, tags });
+
+describe('Tag Archives', () => {
+  afterEach(() => {
+    // biome-ignore lint/performance/noDelete: Restoring environment variable absence
+    delete process.env.TAG_INDEX_THRESHOLD;
+  });
+
+  test('should merge tags that normalize to the same slug', () => {
+    const [first, second] = mockBlogPosts;
+    const tags = groupPostsByTag([
+      withTags(first, ['Core Web Vitals', 'ai']),
+      withTags(second, ['core_web_vitals']),
+    ]);
+
+    expect(tags).toHaveLength(1);
+    expect(tags[0].slug).toBe('core-web-vitals');
+    expect(tags[0].name).toBe('Core Web Vitals');
+    expect(tags[0].posts.map((post) => post.slug)).toEqual([first.slug, second.slug]);
+  });
+
+  test('should skip tags that cannot form a valid slug', () => {
+    expect(normalizeTagSlug('ai')).toBeNull();
+    expect(normalizeTagSlug('!!!')).toBeNull();
+    expect(normalizeTagSlug('Structured Data')).toBe('structured-data');
+  });
+
+  test('should read the index threshold from the environment', () => {
+    expect(getTagIndexThreshold()).toBe(DEFAULT_TAG_INDEX_THRESHOLD);
+
+    process.env.TAG_INDEX_THRESHOLD = '5';
+    expect(getTagIndexThreshold()).toBe(5);
+    expect(isTagIndexable(4)).toBe(false);
+
+    process.env.TAG_INDEX_THRESHOLD = 'not-a-number';
+    expect(getTagIndexThreshold()).toBe(DEFAULT_TAG_INDEX_THRESHOLD);
+  });
+
+  test('should noindex tag pages below the threshold', () => {
+    const seoGenerator = createContentTypeSeoGenerator();
+
+    expect(seoGenerator.generateTagSeo('astro', '/tag/astro', 1, 2).noindex).toBe(true);
+    expect(seoGenerator.generateTagSeo('astro', '/tag/astro', 2, 2).noindex).toBe(false);
+    expect(seoGenerator.generateTagSeo('astro', '/tag/astro', 2, 2).canonical).toMatch(
+      /\/tag\/astro$/
+    );
+  });
+
+  test('should generate and parse tag URLs', () => {
+    const urlManager = new UrlPatternManager('https://example.com');
+
+    expect(urlManager.generateTagUrl('Meta Tags')).toBe('/tag/meta-tags');
+    expect(urlManager.extractContentTypeFromPath('/tag/meta-tags')).toBe('tag');
+    expect(urlManager.extractSlugFromPath('/tag/meta-tags', 'tag')).toBe('meta-tags');
+  });
+
+  test('Property: every post is listed under each of its valid tags exactly once', () => {
+    const tagArbitrary = fc.stringMatching(/^[A-Za-z][A-Za-z0-9 _-]{0,15}$/);
+
+    fc.assert(
+      fc.property(
+        fc.array(fc.array(tagArbitrary, { maxLength: 5 }), { maxLength: mockBlogPosts.length }),
+        (tagLists) => {
+          const posts = tagLists.map((tags, index) => withTags(mockBlogPosts[index], tags));
+          const archives = groupPostsByTag(posts);
+
+          return posts.every((post) =>
+            post.tags.every((tag) => {
+              const slug = normalizeTagSlug(tag);
+              if (!slug) return true;
+
+              const archive = archives.find((candidate) => candidate.slug === slug);
+              return archive?.posts.filter((listed) => listed === post).length === 1;
+            })
+          );
+        }
+      ),
+      { numRuns: propertyTestConfig.numRuns }
+    );
+  });
+});